@@ -6,6 +6,8 @@
  * @interface IDispenseResponse
  * @property {boolean} success - Indicates if the dispense operation was successful.
  * @property {Object} notesDispensed - A map where keys are note values and values are the counts of those notes dispensed.
+ * @property {ICompensationRecord} [compensation] - Set when the hardware failed halfway, notesDispensed then holds what the customer actually got.
+ * @property {WITHDRAWAL_LIMIT_REASON} [reason] - Set when a withdrawal limit blocked the dispense before the chain ran.
  * @example
  * const response: IDispenseResponse = {
  *     success: true,
@@ -21,75 +23,566 @@ interface IDispenseResponse {
     notesDispensed: {
         [noteValue: number]: number;
     }
+    compensation?: ICompensationRecord;
+    reason?: WITHDRAWAL_LIMIT_REASON;
+}
+
+enum WITHDRAWAL_LIMIT_REASON {
+    TRANSACTION_MAXIMUM_EXCEEDED = "TRANSACTION_MAXIMUM_EXCEEDED",
+    DAILY_AMOUNT_EXCEEDED = "DAILY_AMOUNT_EXCEEDED",
+    DAILY_COUNT_EXCEEDED = "DAILY_COUNT_EXCEEDED",
+}
+
+/** What one card may withdraw, the daily limits apply to a rolling window of windowHours (24 by default). */
+interface IWithdrawalLimits {
+    perTransaction: number;
+    dailyAmount: number;
+    dailyCount: number;
+    windowHours?: number;
+}
+
+/**
+ * Written when a withdrawal was cut short after notes had already left the
+ * ATM. Only presentedAmount may be charged to the customer, the bank has to
+ * reverse the rest.
+ */
+interface ICompensationRecord {
+    amount: number;
+    notesPresented: {
+        [noteValue: number]: number;
+    };
+    presentedAmount: number;
+    reversalAmount: number;
+    reason: string;
+    createdAt: Date;
+}
+
+/**
+ * GREEDY hands out the largest notes first and gives up when that runs into a
+ * dead end. EXACT_FALLBACK keeps greedy as the fast path and, when it fails,
+ * searches the chain for any combination that pays the amount, e.g. 600 as
+ * three 200s when greedy took the only 500 and no 100 is left.
+ */
+enum DISPENSE_MODE {
+    GREEDY = "GREEDY",
+    EXACT_FALLBACK = "EXACT_FALLBACK",
+}
+
+/** One cassette of the ATM, capacity is the most notes it can hold. */
+interface ICassetteConfig {
+    noteValue: number;
+    noteCount: number;
+    capacity?: number;
+}
+
+/** What the loaded cassettes can pay at all, amounts outside of it are rejected before the chain runs. */
+interface IWithdrawalRules {
+    minimum: number; // smallest loaded note
+    multipleOf: number; // greatest common divisor of the loaded notes
+}
+
+const DEFAULT_CASSETTE_CAPACITY = 2000;
+
+interface ICassetteSnapshot {
+    noteValue: number;
+    noteCount: number;
+    capacity: number;
+    fillPercent: number;
+}
+
+interface IInventorySnapshot {
+    totalAmount: number;
+    cassettes: ICassetteSnapshot[]; // largest note first
+}
+
+enum INVENTORY_EVENT {
+    DISPENSE = "DISPENSE",
+    REFILL = "REFILL",
+    UNLOAD = "UNLOAD",
+    DEPOSIT = "DEPOSIT",
+}
+
+/** amount and response are only set for DISPENSE, inventory is the state after the change. */
+interface IInventoryEvent {
+    type: INVENTORY_EVENT;
+    noteValue?: number;
+    amount?: number;
+    response?: IDispenseResponse;
+    inventory: IInventorySnapshot;
+}
+
+/** One note of a deposited bundle, as the note reader sees it. */
+interface IDepositNote {
+    noteValue: number;
+    serialNumber: string;
+}
+
+enum NOTE_REJECTION {
+    UNKNOWN_DENOMINATION = "UNKNOWN_DENOMINATION",
+    COUNTERFEIT = "COUNTERFEIT",
+    CASSETTE_FULL = "CASSETTE_FULL",
+    DUPLICATE_SERIAL = "DUPLICATE_SERIAL",
+}
+
+/** Rejected notes are handed back to the customer and are not part of depositedAmount. */
+interface IDepositReceipt {
+    items: { noteValue: number, noteCount: number, amount: number }[];
+    depositedAmount: number;
+    rejectedNotes: { note: IDepositNote, reason: NOTE_REJECTION }[];
+    depositedAt: Date;
+}
+
+/** Everything MainHandler can be built with besides the chain, all of it optional. */
+interface IMainHandlerOptions {
+    mode?: DISPENSE_MODE;
+    dispenser?: INoteDispenser;
+    noteValidator?: INoteValidator;
+    clock?: () => Date;
+}
+
+interface IInventoryObserver {
+    onInventoryChange(event: IInventoryEvent): void;
+}
+
+class DispenserJamError extends Error {
+    constructor(
+        public readonly noteValue: number,
+        public readonly ejectedNotes: number // notes of noteValue that made it out before the jam
+    ) {
+        super(`Dispenser jammed on notes of ${noteValue} after ${ejectedNotes} note(s)`);
+        this.name = "DispenserJamError";
+    }
+}
+
+/** The mechanism that moves notes out of a cassette to the customer. */
+interface INoteDispenser {
+    eject(noteValue: number, noteCount: number): void;
+}
+
+class NoteDispenser implements INoteDispenser {
+    public eject(noteValue: number, noteCount: number): void {}
+}
+
+/** Simulates a fault: lets notesBeforeJam notes through in total, then jams on every later eject. */
+class JammingNoteDispenser implements INoteDispenser {
+    constructor(private notesBeforeJam: number) {}
+
+    public eject(noteValue: number, noteCount: number): void {
+        if (noteCount > this.notesBeforeJam) {
+            const ejectedNotes = this.notesBeforeJam;
+            this.notesBeforeJam = 0;
+            throw new DispenserJamError(noteValue, ejectedNotes);
+        }
+        this.notesBeforeJam -= noteCount;
+    }
 }
 
 class MainHandler {
-    constructor(private readonly nextHandler: INoteHandler) {}
+    private compensationRecords: ICompensationRecord[] = [];
+    private observers: IInventoryObserver[] = [];
+    private readonly mode: DISPENSE_MODE;
+    private readonly dispenser: INoteDispenser;
+    private readonly noteValidator: INoteValidator;
+    private readonly clock: () => Date;
+
+    constructor(private readonly nextHandler: INoteHandler, options: IMainHandlerOptions = {}) {
+        this.mode = options.mode ?? DISPENSE_MODE.EXACT_FALLBACK;
+        this.dispenser = options.dispenser ?? new NoteDispenser();
+        this.noteValidator = options.noteValidator ?? new SerialNumberNoteValidator();
+        this.clock = options.clock ?? (() => new Date());
+    }
+
+    /** Builds the chain from the cassettes, largest note first whatever the order of the config. */
+    public static fromCassettes(cassettes: ICassetteConfig[], options: IMainHandlerOptions = {}): MainHandler {
+        if (!cassettes.length) {
+            throw new Error("An ATM needs at least one cassette");
+        }
+        const noteValues = cassettes.map(cassette => cassette.noteValue);
+        if (new Set(noteValues).size !== noteValues.length) {
+            throw new Error(`Every denomination needs its own cassette, got ${noteValues.join(", ")}`);
+        }
+        const handlers = [...cassettes]
+            .sort((a, b) => b.noteValue - a.noteValue)
+            .map(cassette => new CassetteHandler(cassette.noteValue, cassette.noteCount, cassette.capacity));
+        handlers.slice(1).forEach((handler, index) => handlers[index].setNext(handler));
+        return new MainHandler(handlers[0], options);
+    }
+
+    /**
+     * Two phases: the notes are first reserved in every cassette at once and
+     * only committed once the dispenser has handed them out. Anything that
+     * fails before that releases the reservations, so the cassettes are left
+     * exactly as they were. A strategy overrides the largest-notes-first mix
+     * for this withdrawal only.
+     */
+    public dispense(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        const response = this.dispenseNotes(amount, strategy);
+        this.notify({ type: INVENTORY_EVENT.DISPENSE, amount, response, inventory: this.getInventory() });
+        return response;
+    }
 
-    public dispense(amount: number): IDispenseResponse {
+    private dispenseNotes(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
         console.log(`Disbursing ${amount} from MainHandler`);
 
-        if (amount <= 0 || amount < 100) {
+        const { minimum, multipleOf } = this.getWithdrawalRules();
+        if (amount <= 0 || amount < minimum || amount % multipleOf !== 0) {
+            console.log(`Amount ${amount} rejected, it has to be at least ${minimum} and a multiple of ${multipleOf}`);
+            return { success: false, notesDispensed: {} };
+        }
+
+        const notes = strategy ? this.planWith(strategy, amount) : this.planDispense(amount);
+        if (!notes || !this.reserve(notes)) {
             return { success: false, notesDispensed: {} };
         }
 
-        const response = this.nextHandler.dispense(amount);
-        
-        return response.success ? response : { success: false, notesDispensed: {} };
+        const notesPresented: { [noteValue: number]: number } = {};
+        try {
+            this.getHandlers()
+                .filter(handler => notes[handler.getNoteValue()])
+                .forEach(handler => {
+                    this.dispenser.eject(handler.getNoteValue(), notes[handler.getNoteValue()]);
+                    notesPresented[handler.getNoteValue()] = notes[handler.getNoteValue()];
+                });
+        } catch (error) {
+            // notes of earlier cassettes are out whatever went wrong, a jam also tells how far it got in this one
+            if (error instanceof DispenserJamError && error.ejectedNotes > 0) {
+                notesPresented[error.noteValue] = error.ejectedNotes;
+            }
+            return this.compensate(amount, notes, notesPresented, error instanceof Error ? error.message : String(error));
+        }
+
+        this.getHandlers().forEach(handler => handler.commit(notes[handler.getNoteValue()] || 0));
+        return { success: true, notesDispensed: notes };
+    }
+
+    public getCompensationRecords(): ICompensationRecord[] {
+        return [...this.compensationRecords];
+    }
+
+    /** Greedy first, then the exact search if the mode allows it. Nothing is taken out of the cassettes. */
+    private planDispense(amount: number): { [noteValue: number]: number } | null {
+        const notes = this.nextHandler.planGreedy(amount);
+        if (notes || this.mode === DISPENSE_MODE.GREEDY) {
+            return notes;
+        }
+        const combination = this.nextHandler.findCombination(amount, new Map());
+        if (combination) {
+            console.log(`Greedy dispense failed, using exact combination ${JSON.stringify(combination)}`);
+        }
+        return combination;
+    }
+
+    /** A strategy's plan is checked before it's trusted, it has to pay the amount exactly. */
+    private planWith(strategy: INoteMixStrategy, amount: number): { [noteValue: number]: number } | null {
+        const notes = strategy.plan(amount, this.getHandlers());
+        if (!notes) {
+            console.log(`${strategy.getName()} can't pay ${amount} from the cassettes`);
+            return null;
+        }
+        const total = Object.keys(notes).reduce((sum, noteValue) => sum + Number(noteValue) * notes[Number(noteValue)], 0);
+        if (total !== amount) {
+            console.log(`${strategy.getName()} planned ${JSON.stringify(notes)} worth ${total} for ${amount}`);
+            return null;
+        }
+        console.log(`Using ${strategy.getName()} mix ${JSON.stringify(notes)}`);
+        return notes;
+    }
+
+    /** All or nothing: either every cassette can set its notes aside or none of them does. */
+    private reserve(notes: { [noteValue: number]: number }): boolean {
+        const handlers = this.getHandlers();
+        const unknown = Object.keys(notes).filter(noteValue => !handlers.some(handler => handler.getNoteValue() === Number(noteValue)));
+        const short = handlers.filter(handler => (notes[handler.getNoteValue()] || 0) > handler.getAvailableNotes());
+        if (unknown.length || short.length) {
+            console.log(`Can't reserve ${JSON.stringify(notes)}, unknown notes: [${unknown}], short cassettes: [${short.map(handler => handler.getNoteValue())}]`);
+            return false;
+        }
+        handlers.forEach(handler => handler.reserve(notes[handler.getNoteValue()] || 0));
+        return true;
+    }
+
+    /**
+     * The notes that reached the customer are gone from the cassettes, the
+     * rest of the reservation goes back.
+     */
+    private compensate(
+        amount: number,
+        notes: { [noteValue: number]: number },
+        notesPresented: { [noteValue: number]: number },
+        reason: string
+    ): IDispenseResponse {
+        this.getHandlers().forEach(handler => {
+            const presented = notesPresented[handler.getNoteValue()] || 0;
+            handler.commit(presented);
+            handler.release((notes[handler.getNoteValue()] || 0) - presented);
+        });
+        const presentedAmount = Object.keys(notesPresented)
+            .reduce((sum, noteValue) => sum + Number(noteValue) * notesPresented[Number(noteValue)], 0);
+        const compensation: ICompensationRecord = {
+            amount,
+            notesPresented,
+            presentedAmount,
+            reversalAmount: amount - presentedAmount,
+            reason,
+            createdAt: this.clock(),
+        };
+        this.compensationRecords.push(compensation);
+        console.log(`MainHandler :: compensate :: ${reason}, presented ${presentedAmount} of ${amount}`);
+        return { success: false, notesDispensed: notesPresented, compensation };
     }
 
     public remainingNotes(): void {
         this.nextHandler.getNoteCount();
     }
+
+    public getInventory(): IInventorySnapshot {
+        const cassettes = this.getHandlers().map(handler => ({
+            noteValue: handler.getNoteValue(),
+            noteCount: handler.getRemainingNotes(),
+            capacity: handler.getCapacity(),
+            fillPercent: Math.round(handler.getRemainingNotes() / handler.getCapacity() * 100),
+        }));
+        return {
+            totalAmount: cassettes.reduce((sum, cassette) => sum + cassette.noteValue * cassette.noteCount, 0),
+            cassettes,
+        };
+    }
+
+    public addObserver(observer: IInventoryObserver): void {
+        this.observers.push(observer);
+    }
+
+    private notify(event: IInventoryEvent): void {
+        this.observers.forEach(observer => observer.onInventoryChange(event));
+    }
+
+    /** Only cassettes that still have notes count, an empty cassette of 100s doesn't make 100 payable. */
+    public getWithdrawalRules(): IWithdrawalRules {
+        const loaded = this.getHandlers()
+            .filter(handler => handler.getRemainingNotes() > 0)
+            .map(handler => handler.getNoteValue());
+        const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+        return {
+            minimum: loaded.length ? Math.min(...loaded) : Infinity,
+            multipleOf: loaded.length ? loaded.reduce(gcd) : Infinity,
+        };
+    }
+
+    public getHandlers(): INoteHandler[] {
+        const handlers: INoteHandler[] = [];
+        for (let handler: INoteHandler | null = this.nextHandler; handler; handler = handler.getNext()) {
+            handlers.push(handler);
+        }
+        return handlers;
+    }
+
+    public getHandler(noteValue: number): INoteHandler {
+        const handler = this.getHandlers().find(candidate => candidate.getNoteValue() === noteValue);
+        if (!handler) {
+            throw new Error(`No cassette for notes of ${noteValue}`);
+        }
+        return handler;
+    }
+
+    public refill(noteValue: number, noteCount: number): void {
+        this.getHandler(noteValue).refill(noteCount);
+        console.log(`Refilled ${noteCount} notes of ${noteValue}`);
+        this.notify({ type: INVENTORY_EVENT.REFILL, noteValue, inventory: this.getInventory() });
+    }
+
+    /** Empties the cassette and returns how many notes were taken out. */
+    public unload(noteValue: number): number {
+        const noteCount = this.getHandler(noteValue).unload();
+        console.log(`Unloaded ${noteCount} notes of ${noteValue}`);
+        this.notify({ type: INVENTORY_EVENT.UNLOAD, noteValue, inventory: this.getInventory() });
+        return noteCount;
+    }
+
+    /**
+     * Takes every note that has a cassette, passes the validator and still
+     * fits, the rest goes back to the customer with its reason. A serial
+     * number seen earlier in the same bundle can't be a genuine note.
+     */
+    public deposit(notes: IDepositNote[]): IDepositReceipt {
+        console.log(`Accepting a deposit of ${notes.length} notes in MainHandler`);
+        const accepted: Map<INoteHandler, number> = new Map();
+        const rejectedNotes: { note: IDepositNote, reason: NOTE_REJECTION }[] = [];
+        const serialNumbers: Set<string> = new Set();
+
+        notes.forEach(note => {
+            const handler = this.getHandlers().find(candidate => candidate.getNoteValue() === note.noteValue);
+            if (!handler) {
+                rejectedNotes.push({ note, reason: NOTE_REJECTION.UNKNOWN_DENOMINATION });
+                return;
+            }
+            if (serialNumbers.has(note.serialNumber)) {
+                rejectedNotes.push({ note, reason: NOTE_REJECTION.DUPLICATE_SERIAL });
+                return;
+            }
+            serialNumbers.add(note.serialNumber);
+            const isFull = handler.getRemainingNotes() + (accepted.get(handler) || 0) >= handler.getCapacity();
+            const reason = this.noteValidator.validate(note) ?? (isFull ? NOTE_REJECTION.CASSETTE_FULL : null);
+            if (reason) {
+                rejectedNotes.push({ note, reason });
+                return;
+            }
+            accepted.set(handler, (accepted.get(handler) || 0) + 1);
+        });
+
+        accepted.forEach((noteCount, handler) => handler.refill(noteCount));
+        const items = this.getHandlers()
+            .filter(handler => accepted.has(handler))
+            .map(handler => ({
+                noteValue: handler.getNoteValue(),
+                noteCount: accepted.get(handler) || 0,
+                amount: handler.getNoteValue() * (accepted.get(handler) || 0),
+            }));
+        const receipt: IDepositReceipt = {
+            items,
+            depositedAmount: items.reduce((sum, item) => sum + item.amount, 0),
+            rejectedNotes,
+            depositedAt: this.clock(),
+        };
+        rejectedNotes.forEach(({ note, reason }) => console.log(`Returning note ${note.serialNumber} of ${note.noteValue}: ${reason}`));
+        this.notify({ type: INVENTORY_EVENT.DEPOSIT, amount: receipt.depositedAmount, inventory: this.getInventory() });
+        return receipt;
+    }
 }
 
 abstract class INoteHandler {
     private nextHandler: INoteHandler | null = null;
+    private reservedNotes: number = 0; // set aside for a dispense that isn't committed yet
     constructor(
-        private readonly noteValue: number = 0,
-        private noteCount: number = 0
-    ) {}
+        private readonly noteValue: number,
+        private noteCount: number = 0,
+        private readonly capacity: number = DEFAULT_CASSETTE_CAPACITY
+    ) {
+        if (!Number.isInteger(noteValue) || noteValue <= 0) {
+            throw new Error(`Note value must be a positive whole number, got ${noteValue}`);
+        }
+        if (noteCount < 0 || noteCount > capacity) {
+            throw new Error(`Cassette of ${noteValue} holds at most ${capacity} notes, got ${noteCount}`);
+        }
+    }
 
     public setNext(handler: INoteHandler): void {
         this.nextHandler = handler;
     }
 
-    public dispense(amount: number): IDispenseResponse {
-        let remainingAmount = amount;
-        const requiredNotes = Math.floor(amount / this.noteValue);
-        const response: IDispenseResponse = {
-            success: false,
-            notesDispensed: {}
-        };
+    public getNext(): INoteHandler | null {
+        return this.nextHandler;
+    }
+
+    public getNoteValue(): number {
+        return this.noteValue;
+    }
+
+    public getRemainingNotes(): number {
+        return this.noteCount;
+    }
+
+    public getAvailableNotes(): number {
+        return this.noteCount - this.reservedNotes;
+    }
 
-        if (requiredNotes < this.noteCount) {
-            response.notesDispensed[this.noteValue] = requiredNotes;
-            this.noteCount -= requiredNotes;
-            remainingAmount -= (this.noteValue * requiredNotes);
-        } else if (requiredNotes > this.noteCount && this.nextHandler) {
-            response.notesDispensed[this.noteValue] = this.noteCount;
-            remainingAmount -= (this.noteValue * this.noteCount);
-            this.noteCount = 0;
-        }
-
-        if (remainingAmount === 0) {
-            response.success = true;
-        } else if ((remainingAmount > 0) && this.nextHandler) {
-            const nextResponse = this.nextHandler.dispense(remainingAmount);
-            if (nextResponse.success) {
-                response.notesDispensed = {
-                    ...response.notesDispensed,
-                    ...nextResponse.notesDispensed
-                };
-                response.success = true;
+    public getCapacity(): number {
+        return this.capacity;
+    }
+
+    public refill(noteCount: number): void {
+        if (!Number.isInteger(noteCount) || noteCount <= 0) {
+            throw new Error(`Refill needs a positive number of notes, got ${noteCount}`);
+        }
+        if (this.noteCount + noteCount > this.capacity) {
+            throw new Error(`Cassette of ${this.noteValue} has room for ${this.capacity - this.noteCount} more notes, got ${noteCount}`);
+        }
+        this.noteCount += noteCount;
+    }
+
+    public unload(): number {
+        if (this.reservedNotes > 0) {
+            throw new Error(`Cassette of ${this.noteValue} has ${this.reservedNotes} notes reserved for a dispense`);
+        }
+        const noteCount = this.noteCount;
+        this.noteCount = 0;
+        return noteCount;
+    }
+
+    /**
+     * Greedy pass down the chain: as many of this note as needed, but never
+     * more than the cassette has available, the rest is left to the next
+     * handler. Only plans, nothing is taken out of the cassettes.
+     */
+    public planGreedy(amount: number): { [noteValue: number]: number } | null {
+        const notes = Math.min(Math.floor(amount / this.noteValue), this.getAvailableNotes());
+        const remainingAmount = amount - notes * this.noteValue;
+        const rest = remainingAmount === 0 ? {} : this.nextHandler?.planGreedy(remainingAmount);
+        if (!rest) {
+            return null;
+        }
+        return notes > 0 ? { [this.noteValue]: notes, ...rest } : rest;
+    }
+
+    /**
+     * Looks for notes of this and the following handlers that add up to amount
+     * exactly, trying as many of this note as possible first. Like planGreedy
+     * it only plans, MainHandler reserves the result. failedAmounts remembers
+     * the amounts a handler already couldn't pay, so a search over large
+     * inventories doesn't try the same remainder again. maxNotes caps how many
+     * notes of a denomination may be used, below what is available.
+     */
+    public findCombination(
+        amount: number,
+        failedAmounts: Map<INoteHandler, Set<number>>,
+        maxNotes: { [noteValue: number]: number } = {}
+    ): { [noteValue: number]: number } | null {
+        if (amount === 0) {
+            return {};
+        }
+        const failed = failedAmounts.get(this) ?? new Set<number>();
+        failedAmounts.set(this, failed);
+        if (failed.has(amount)) {
+            return null;
+        }
+
+        const available = Math.min(this.getAvailableNotes(), maxNotes[this.noteValue] ?? Infinity);
+        for (let notes = Math.min(Math.floor(amount / this.noteValue), available); notes >= 0; notes--) {
+            const remainingAmount = amount - notes * this.noteValue;
+            const rest = remainingAmount === 0 ? {} : this.nextHandler?.findCombination(remainingAmount, failedAmounts, maxNotes);
+            if (rest) {
+                return notes > 0 ? { [this.noteValue]: notes, ...rest } : rest;
             }
         }
+        failed.add(amount);
+        return null;
+    }
+
+    /* Two-phase dispense, driven by MainHandler.dispense */
 
-        if (!response.success) {
-            this.noteCount += (response.notesDispensed[this.noteValue] || 0);
+    public reserve(notes: number): void {
+        if (notes > this.getAvailableNotes()) {
+            throw new Error(`Only ${this.getAvailableNotes()} notes of ${this.noteValue} available, can't reserve ${notes}`);
         }
+        this.reservedNotes += notes;
+    }
 
-        return response;
+    /** The reserved notes have left the cassette. */
+    public commit(notes: number): void {
+        this.assertReserved(notes);
+        this.reservedNotes -= notes;
+        this.noteCount -= notes;
+    }
+
+    /** The reserved notes stay in the cassette after all. */
+    public release(notes: number): void {
+        this.assertReserved(notes);
+        this.reservedNotes -= notes;
+    }
+
+    private assertReserved(notes: number): void {
+        if (notes > this.reservedNotes) {
+            throw new Error(`Only ${this.reservedNotes} notes of ${this.noteValue} are reserved, got ${notes}`);
+        }
     }
 
     public getNoteCount(): void {
@@ -98,6 +591,13 @@ abstract class INoteHandler {
     }
 }
 
+/** A cassette of any denomination, built from ICassetteConfig by MainHandler.fromCassettes. */
+class CassetteHandler extends INoteHandler {
+    constructor(noteValue: number, noteCount: number, capacity?: number) {
+        super(noteValue, noteCount, capacity);
+    }
+}
+
 class ThousandWorthHandler extends INoteHandler {
     constructor(noteCount: number) {
         super(1000, noteCount);
@@ -110,12 +610,726 @@ class FiveHundredWorthHandler extends INoteHandler {
     }
 }
 
+class TwoHundredWorthHandler extends INoteHandler {
+    constructor(noteCount: number) {
+        super(200, noteCount);
+    }
+}
+
 class HundredWorthHandler extends INoteHandler {
     constructor(noteCount: number) {
         super(100, noteCount);
     }
 }
 
+/**
+ * Picks the notes that pay an amount for one withdrawal, from what the
+ * cassettes have available. handlers come largest note first, null means the
+ * strategy can't pay the amount.
+ */
+interface INoteMixStrategy {
+    getName(): string;
+    plan(amount: number, handlers: INoteHandler[]): { [noteValue: number]: number } | null;
+}
+
+/**
+ * Some small notes in every withdrawal, e.g. two 100s in 2000 instead of two
+ * 1000s. The customer asked for change, so a small cassette that is empty or
+ * too short for it fails the withdrawal instead of paying in large notes.
+ */
+class SmallChangeStrategy implements INoteMixStrategy {
+    constructor(
+        private readonly smallNotes: number = 2,
+        private readonly noteValue?: number // defaults to the smallest cassette
+    ) {}
+
+    getName(): string {
+        return "SMALL_CHANGE";
+    }
+
+    /** Asks for fewer small notes when the full smallNotes would leave an amount nothing else can pay, but never none. */
+    public plan(amount: number, handlers: INoteHandler[]): { [noteValue: number]: number } | null {
+        const small = this.noteValue === undefined
+            ? handlers[handlers.length - 1]
+            : handlers.find(handler => handler.getNoteValue() === this.noteValue);
+        if (!small) {
+            return null;
+        }
+        const smallValue = small.getNoteValue();
+        const wanted = Math.min(this.smallNotes, Math.floor(amount / smallValue));
+        if (small.getAvailableNotes() < wanted) {
+            console.log(`${this.getName()} needs ${wanted} notes of ${smallValue}, only ${small.getAvailableNotes()} left`);
+            return null;
+        }
+        for (let notes = wanted; notes >= Math.min(1, wanted); notes--) {
+            const rest = handlers[0].findCombination(amount - notes * smallValue, new Map(), {
+                [smallValue]: small.getAvailableNotes() - notes,
+            });
+            if (rest) {
+                return notes > 0 ? { ...rest, [smallValue]: (rest[smallValue] || 0) + notes } : rest;
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Takes every note from the cassette with the most notes left, so the
+ * cassettes run down evenly instead of the largest one running dry first.
+ */
+class BalanceDepletionStrategy implements INoteMixStrategy {
+    getName(): string {
+        return "BALANCE_DEPLETION";
+    }
+
+    /** One note at a time, skipping notes that would leave a remainder the cassettes can't pay. */
+    public plan(amount: number, handlers: INoteHandler[]): { [noteValue: number]: number } | null {
+        const notes: { [noteValue: number]: number } = {};
+        const left = (handler: INoteHandler) => handler.getAvailableNotes() - (notes[handler.getNoteValue()] || 0);
+        let remainingAmount = amount;
+        while (remainingAmount > 0) {
+            const limits: { [noteValue: number]: number } = {};
+            handlers.forEach(handler => limits[handler.getNoteValue()] = left(handler));
+            const next = handlers
+                .filter(handler => left(handler) > 0 && handler.getNoteValue() <= remainingAmount)
+                .sort((a, b) => left(b) - left(a) || b.getNoteValue() - a.getNoteValue())
+                .find(handler => {
+                    const noteValue = handler.getNoteValue();
+                    const rest = remainingAmount - noteValue;
+                    return rest === 0 || !!handlers[0].findCombination(rest, new Map(), { ...limits, [noteValue]: limits[noteValue] - 1 });
+                });
+            if (!next) {
+                return null;
+            }
+            notes[next.getNoteValue()] = (notes[next.getNoteValue()] || 0) + 1;
+            remainingAmount -= next.getNoteValue();
+        }
+        return notes;
+    }
+}
+
+/** Only the denominations the customer picked on the screen, largest of them first. */
+class CustomerChosenStrategy implements INoteMixStrategy {
+    constructor(private readonly noteValues: number[]) {
+        if (!noteValues.length) {
+            throw new Error("Pick at least one denomination");
+        }
+    }
+
+    getName(): string {
+        return `CUSTOMER_CHOSEN(${this.noteValues.join(", ")})`;
+    }
+
+    public plan(amount: number, handlers: INoteHandler[]): { [noteValue: number]: number } | null {
+        const limits: { [noteValue: number]: number } = {};
+        handlers
+            .filter(handler => this.noteValues.indexOf(handler.getNoteValue()) === -1)
+            .forEach(handler => limits[handler.getNoteValue()] = 0);
+        return handlers[0].findCombination(amount, new Map(), limits);
+    }
+}
+
+/** noteCount follows the cassette while the alert is active, raisedAt stays when it first dropped. */
+interface ILowCashAlert {
+    noteValue: number;
+    noteCount: number;
+    threshold: number;
+    raisedAt: Date;
+}
+
+interface IDispenseLogEntry {
+    amount: number;
+    success: boolean;
+    notesDispensed: {
+        [noteValue: number]: number;
+    };
+    dispensedAt: Date;
+}
+
+/** When a cassette runs out at its recent pace, runsOutAt is null while nothing was taken from it. */
+interface IRunOutForecast {
+    noteValue: number;
+    noteCount: number;
+    notesPerHour: number;
+    runsOutAt: Date | null;
+}
+
+/**
+ * Watches a MainHandler for operations: logs every dispense, raises an alert
+ * once a cassette drops to its low-water mark (and clears it after a refill)
+ * and forecasts from the recent withdrawal rate when each cassette runs dry,
+ * so cash-in-transit visits can be planned.
+ */
+class InventoryMonitor implements IInventoryObserver {
+    private lowWaterMarks: Map<number, number> = new Map();
+    private activeAlerts: Map<number, ILowCashAlert> = new Map();
+    private dispenseLog: IDispenseLogEntry[] = [];
+    private readonly startedAt: Date;
+
+    constructor(
+        private readonly mainHandler: MainHandler,
+        private readonly clock: () => Date = () => new Date()
+    ) {
+        this.startedAt = clock();
+        mainHandler.addObserver(this);
+    }
+
+    public setLowWaterMark(noteValue: number, noteCount: number): void {
+        this.mainHandler.getHandler(noteValue);
+        this.lowWaterMarks.set(noteValue, noteCount);
+        this.checkLowWater(this.mainHandler.getInventory());
+    }
+
+    public onInventoryChange(event: IInventoryEvent): void {
+        if (event.type === INVENTORY_EVENT.DISPENSE && event.amount !== undefined && event.response) {
+            this.dispenseLog.push({
+                amount: event.amount,
+                success: event.response.success,
+                notesDispensed: event.response.notesDispensed,
+                dispensedAt: this.clock(),
+            });
+        }
+        this.checkLowWater(event.inventory);
+    }
+
+    public getActiveAlerts(): ILowCashAlert[] {
+        return Array.from(this.activeAlerts.values()).map(alert => ({ ...alert }));
+    }
+
+    public getDispenseLog(): IDispenseLogEntry[] {
+        return [...this.dispenseLog];
+    }
+
+    /** The rate is taken over the last windowHours, or since the monitor started if that is shorter. */
+    public forecast(windowHours: number = 24): IRunOutForecast[] {
+        const now = this.clock();
+        const windowStart = Math.max(now.getTime() - windowHours * 60 * 60 * 1000, this.startedAt.getTime());
+        const elapsedHours = (now.getTime() - windowStart) / (60 * 60 * 1000);
+        const recent = this.dispenseLog.filter(entry => entry.dispensedAt.getTime() >= windowStart);
+
+        return this.mainHandler.getInventory().cassettes.map(cassette => {
+            const notesDispensed = recent.reduce((sum, entry) => sum + (entry.notesDispensed[cassette.noteValue] || 0), 0);
+            const notesPerHour = elapsedHours > 0 ? notesDispensed / elapsedHours : 0;
+            return {
+                noteValue: cassette.noteValue,
+                noteCount: cassette.noteCount,
+                notesPerHour,
+                runsOutAt: notesPerHour > 0
+                    ? new Date(now.getTime() + (cassette.noteCount / notesPerHour) * 60 * 60 * 1000)
+                    : null,
+            };
+        });
+    }
+
+    private checkLowWater(inventory: IInventorySnapshot): void {
+        inventory.cassettes.forEach(cassette => {
+            const threshold = this.lowWaterMarks.get(cassette.noteValue);
+            if (threshold === undefined || cassette.noteCount > threshold) {
+                this.activeAlerts.delete(cassette.noteValue);
+                return;
+            }
+            const alert = this.activeAlerts.get(cassette.noteValue);
+            if (alert) {
+                alert.noteCount = cassette.noteCount;
+                alert.threshold = threshold;
+            } else {
+                console.log(`InventoryMonitor :: LOW CASH :: ${cassette.noteCount} notes of ${cassette.noteValue} left, low-water mark is ${threshold}`);
+                this.activeAlerts.set(cassette.noteValue, {
+                    noteValue: cassette.noteValue,
+                    noteCount: cassette.noteCount,
+                    threshold,
+                    raisedAt: this.clock(),
+                });
+            }
+        });
+    }
+}
+
+/**
+ * Sits in front of MainHandler and enforces the withdrawal limits per card.
+ * Daily limits are counted over a rolling window rather than per calendar
+ * day, only money that actually left the ATM counts towards them.
+ */
+class WithdrawalLimitHandler {
+    private withdrawals: Map<string, { amount: number, withdrawnAt: Date }[]> = new Map(); // by card number
+
+    constructor(
+        private readonly mainHandler: MainHandler,
+        private readonly limits: IWithdrawalLimits,
+        private readonly clock: () => Date = () => new Date()
+    ) {}
+
+    public dispense(cardNumber: string, amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        const reason = this.check(cardNumber, amount);
+        if (reason) {
+            console.log(`Withdrawal of ${amount} on card ${cardNumber} blocked: ${reason}`);
+            return { success: false, notesDispensed: {}, reason };
+        }
+
+        const response = this.mainHandler.dispense(amount, strategy);
+        const withdrawn = response.success ? amount : (response.compensation?.presentedAmount || 0);
+        if (withdrawn > 0) {
+            this.getWithdrawals(cardNumber).push({ amount: withdrawn, withdrawnAt: this.clock() });
+        }
+        return response;
+    }
+
+    /** What the card has withdrawn within the current window. */
+    public getUsage(cardNumber: string): { amount: number, count: number } {
+        const withdrawals = this.getWithdrawals(cardNumber);
+        return {
+            amount: withdrawals.reduce((sum, withdrawal) => sum + withdrawal.amount, 0),
+            count: withdrawals.length,
+        };
+    }
+
+    private check(cardNumber: string, amount: number): WITHDRAWAL_LIMIT_REASON | null {
+        const { perTransaction, dailyAmount, dailyCount } = this.limits;
+        const usage = this.getUsage(cardNumber);
+        if (amount > perTransaction) {
+            return WITHDRAWAL_LIMIT_REASON.TRANSACTION_MAXIMUM_EXCEEDED;
+        }
+        if (usage.count >= dailyCount) {
+            return WITHDRAWAL_LIMIT_REASON.DAILY_COUNT_EXCEEDED;
+        }
+        if (usage.amount + amount > dailyAmount) {
+            return WITHDRAWAL_LIMIT_REASON.DAILY_AMOUNT_EXCEEDED;
+        }
+        return null;
+    }
+
+    /** Drops what has fallen out of the window on the way. */
+    private getWithdrawals(cardNumber: string): { amount: number, withdrawnAt: Date }[] {
+        const windowStart = this.clock().getTime() - (this.limits.windowHours ?? 24) * 60 * 60 * 1000;
+        const withdrawals = (this.withdrawals.get(cardNumber) || [])
+            .filter(withdrawal => withdrawal.withdrawnAt.getTime() > windowStart);
+        this.withdrawals.set(cardNumber, withdrawals);
+        return withdrawals;
+    }
+}
+
+/** Decides whether a deposited note is genuine, null when it is. */
+interface INoteValidator {
+    validate(note: IDepositNote): NOTE_REJECTION | null;
+}
+
+/**
+ * Stand-in for the note reader: a serial number has to look like one and
+ * must not be on the list of known counterfeits.
+ */
+class SerialNumberNoteValidator implements INoteValidator {
+    private counterfeitSerials: Set<string>;
+
+    constructor(
+        counterfeitSerials: string[] = [],
+        private readonly serialPattern: RegExp = /^[0-9][A-Z]{2}[0-9]{6}$/
+    ) {
+        this.counterfeitSerials = new Set(counterfeitSerials);
+    }
+
+    public validate(note: IDepositNote): NOTE_REJECTION | null {
+        if (!this.serialPattern.test(note.serialNumber) || this.counterfeitSerials.has(note.serialNumber)) {
+            return NOTE_REJECTION.COUNTERFEIT;
+        }
+        return null;
+    }
+}
+
+/**
+ * Stand-in for the bank behind the ATM. In real the ATM would ask the bank's
+ * switch to verify the PIN and to debit the account.
+ */
+class BankAccount {
+    constructor(
+        private readonly accountNumber: string,
+        private balance: number = 0
+    ) {}
+
+    public getAccountNumber(): string {
+        return this.accountNumber;
+    }
+
+    public getBalance(): number {
+        return this.balance;
+    }
+
+    public debit(amount: number): void {
+        if (amount > this.balance) {
+            throw new Error(`Insufficient balance in ${this.accountNumber}: needs ${amount}, has ${this.balance}`);
+        }
+        this.balance -= amount;
+    }
+
+    public credit(amount: number): void {
+        this.balance += amount;
+    }
+}
+
+class Card {
+    constructor(
+        private readonly cardNumber: string,
+        private readonly accountNumber: string
+    ) {}
+
+    public getCardNumber(): string {
+        return this.cardNumber;
+    }
+
+    public getAccountNumber(): string {
+        return this.accountNumber;
+    }
+}
+
+class Bank {
+    private accounts: Map<string, BankAccount> = new Map();
+    private pins: Map<string, string> = new Map(); // by card number
+    private blockedCards: Set<string> = new Set();
+
+    public openAccount(accountNumber: string, balance: number): BankAccount {
+        const account = new BankAccount(accountNumber, balance);
+        this.accounts.set(accountNumber, account);
+        return account;
+    }
+
+    public issueCard(cardNumber: string, accountNumber: string, pin: string): Card {
+        this.getAccount(accountNumber);
+        this.pins.set(cardNumber, pin);
+        return new Card(cardNumber, accountNumber);
+    }
+
+    public getAccount(accountNumber: string): BankAccount {
+        const account = this.accounts.get(accountNumber);
+        if (!account) {
+            throw new Error(`Account ${accountNumber} not found`);
+        }
+        return account;
+    }
+
+    public isCardUsable(card: Card): boolean {
+        return this.pins.has(card.getCardNumber()) && !this.blockedCards.has(card.getCardNumber());
+    }
+
+    public verifyPin(card: Card, pin: string): boolean {
+        return this.isCardUsable(card) && this.pins.get(card.getCardNumber()) === pin;
+    }
+
+    public blockCard(card: Card): void {
+        this.blockedCards.add(card.getCardNumber());
+    }
+}
+
+enum ATM_STATE {
+    IDLE = "IDLE",
+    CARD_INSERTED = "CARD_INSERTED",
+    PIN_VERIFIED = "PIN_VERIFIED",
+    TRANSACTION_SELECTED = "TRANSACTION_SELECTED",
+    DISPENSING = "DISPENSING",
+    EJECTING = "EJECTING",
+}
+
+enum TRANSACTION_TYPE {
+    BALANCE_ENQUIRY = "BALANCE_ENQUIRY",
+    WITHDRAWAL = "WITHDRAWAL",
+    DEPOSIT = "DEPOSIT",
+}
+
+/**
+ * State pattern, every state only implements the actions it allows and the
+ * rest throw. A state moves the ATM on by calling atm.setState.
+ */
+abstract class IATMState {
+    constructor(protected readonly atm: ATM) {}
+
+    abstract getName(): ATM_STATE;
+
+    public insertCard(card: Card): void {
+        this.reject("insert a card");
+    }
+
+    public enterPin(pin: string): boolean {
+        return this.reject("enter a PIN");
+    }
+
+    public selectTransaction(type: TRANSACTION_TYPE): void {
+        this.reject("select a transaction");
+    }
+
+    public checkBalance(): number {
+        return this.reject("check the balance");
+    }
+
+    public withdraw(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        return this.reject("withdraw");
+    }
+
+    public deposit(notes: IDepositNote[]): IDepositReceipt {
+        return this.reject("deposit");
+    }
+
+    /** Cancel button, hands the card back from any state that holds one. */
+    public ejectCard(): Card {
+        return this.reject("eject the card");
+    }
+
+    protected reject(action: string): never {
+        throw new Error(`Can't ${action} while the ATM is ${this.getName()}`);
+    }
+}
+
+class IdleState extends IATMState {
+    getName(): ATM_STATE {
+        return ATM_STATE.IDLE;
+    }
+
+    public insertCard(card: Card): void {
+        if (!this.atm.getBank().isCardUsable(card)) {
+            console.log(`Card ${card.getCardNumber()} is not accepted`);
+            return;
+        }
+        this.atm.startSession(card);
+        this.atm.setState(new CardInsertedState(this.atm));
+    }
+}
+
+class CardInsertedState extends IATMState {
+    getName(): ATM_STATE {
+        return ATM_STATE.CARD_INSERTED;
+    }
+
+    /** Too many wrong PINs and the card is kept and blocked, the session ends. */
+    public enterPin(pin: string): boolean {
+        const card = this.atm.getCard();
+        if (this.atm.getBank().verifyPin(card, pin)) {
+            this.atm.setState(new PinVerifiedState(this.atm));
+            return true;
+        }
+        const attemptsLeft = this.atm.recordWrongPin();
+        if (attemptsLeft > 0) {
+            console.log(`Wrong PIN, ${attemptsLeft} attempt(s) left`);
+            return false;
+        }
+        console.log(`Wrong PIN entered too often, card ${card.getCardNumber()} is retained`);
+        this.atm.retainCard();
+        return false;
+    }
+
+    public ejectCard(): Card {
+        return this.atm.endSession();
+    }
+}
+
+class PinVerifiedState extends IATMState {
+    getName(): ATM_STATE {
+        return ATM_STATE.PIN_VERIFIED;
+    }
+
+    public selectTransaction(type: TRANSACTION_TYPE): void {
+        this.atm.setState(new TransactionSelectedState(this.atm, type));
+    }
+
+    public ejectCard(): Card {
+        return this.atm.endSession();
+    }
+}
+
+class TransactionSelectedState extends IATMState {
+    constructor(atm: ATM, private readonly type: TRANSACTION_TYPE) {
+        super(atm);
+    }
+
+    getName(): ATM_STATE {
+        return ATM_STATE.TRANSACTION_SELECTED;
+    }
+
+    public checkBalance(): number {
+        if (this.type !== TRANSACTION_TYPE.BALANCE_ENQUIRY) {
+            this.reject(`check the balance during a ${this.type}`);
+        }
+        const balance = this.atm.getAccount().getBalance();
+        this.atm.setState(new EjectingState(this.atm));
+        return balance;
+    }
+
+    /**
+     * The account is only debited for notes that actually left the cassettes,
+     * after a jam that is the presented part of the amount. Whatever happens
+     * while dispensing, the ATM moves on to ejecting so the card comes back.
+     */
+    public withdraw(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        if (this.type !== TRANSACTION_TYPE.WITHDRAWAL) {
+            this.reject(`withdraw during a ${this.type}`);
+        }
+        const account = this.atm.getAccount();
+        if (amount > account.getBalance()) {
+            console.log(`Insufficient balance for ${amount}`);
+            this.atm.setState(new EjectingState(this.atm));
+            return { success: false, notesDispensed: {} };
+        }
+
+        this.atm.setState(new DispensingState(this.atm));
+        try {
+            const response = this.atm.dispense(amount, strategy);
+            if (response.success) {
+                account.debit(amount);
+            } else if (response.compensation) {
+                account.debit(response.compensation.presentedAmount);
+            }
+            return response;
+        } finally {
+            this.atm.setState(new EjectingState(this.atm));
+        }
+    }
+
+    /** Only what ends up in the cassettes is credited, rejected notes are handed back. */
+    public deposit(notes: IDepositNote[]): IDepositReceipt {
+        if (this.type !== TRANSACTION_TYPE.DEPOSIT) {
+            this.reject(`deposit during a ${this.type}`);
+        }
+        const receipt = this.atm.getMainHandler().deposit(notes);
+        if (receipt.depositedAmount > 0) {
+            this.atm.getAccount().credit(receipt.depositedAmount);
+        }
+        this.atm.setState(new EjectingState(this.atm));
+        return receipt;
+    }
+
+    public ejectCard(): Card {
+        return this.atm.endSession();
+    }
+}
+
+/** Notes are moving, nothing else is allowed until the handler chain is done. */
+class DispensingState extends IATMState {
+    getName(): ATM_STATE {
+        return ATM_STATE.DISPENSING;
+    }
+}
+
+class EjectingState extends IATMState {
+    getName(): ATM_STATE {
+        return ATM_STATE.EJECTING;
+    }
+
+    public ejectCard(): Card {
+        return this.atm.endSession();
+    }
+}
+
+/** One session per card: Idle -> CardInserted -> PinVerified -> TransactionSelected -> Dispensing -> Ejecting -> Idle. */
+class ATM {
+    private state: IATMState = new IdleState(this);
+    private card: Card | null = null;
+    private wrongPinAttempts: number = 0;
+    private retainedCards: Card[] = [];
+    private readonly limitHandler: WithdrawalLimitHandler | null;
+
+    /** The limits are enforced in front of this ATM's own mainHandler, so withdrawals and deposits share the cassettes. */
+    constructor(
+        private readonly mainHandler: MainHandler,
+        private readonly bank: Bank,
+        private readonly maxPinAttempts: number = 3,
+        withdrawalLimits?: IWithdrawalLimits,
+        clock?: () => Date
+    ) {
+        this.limitHandler = withdrawalLimits ? new WithdrawalLimitHandler(mainHandler, withdrawalLimits, clock) : null;
+    }
+
+    public insertCard(card: Card): void {
+        this.state.insertCard(card);
+    }
+
+    public enterPin(pin: string): boolean {
+        return this.state.enterPin(pin);
+    }
+
+    public selectTransaction(type: TRANSACTION_TYPE): void {
+        this.state.selectTransaction(type);
+    }
+
+    public checkBalance(): number {
+        return this.state.checkBalance();
+    }
+
+    public withdraw(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        return this.state.withdraw(amount, strategy);
+    }
+
+    public deposit(notes: IDepositNote[]): IDepositReceipt {
+        return this.state.deposit(notes);
+    }
+
+    public ejectCard(): Card {
+        return this.state.ejectCard();
+    }
+
+    public getState(): ATM_STATE {
+        return this.state.getName();
+    }
+
+    public getRetainedCards(): Card[] {
+        return [...this.retainedCards];
+    }
+
+    /* Used by the states */
+
+    public setState(state: IATMState): void {
+        console.log(`ATM :: ${this.state.getName()} -> ${state.getName()}`);
+        this.state = state;
+    }
+
+    public getBank(): Bank {
+        return this.bank;
+    }
+
+    public getMainHandler(): MainHandler {
+        return this.mainHandler;
+    }
+
+    /** Through the withdrawal limits when the ATM has any. */
+    public dispense(amount: number, strategy?: INoteMixStrategy): IDispenseResponse {
+        return this.limitHandler
+            ? this.limitHandler.dispense(this.getCard().getCardNumber(), amount, strategy)
+            : this.mainHandler.dispense(amount, strategy);
+    }
+
+    public getCard(): Card {
+        if (!this.card) {
+            throw new Error("No card in the ATM");
+        }
+        return this.card;
+    }
+
+    public getAccount(): BankAccount {
+        return this.bank.getAccount(this.getCard().getAccountNumber());
+    }
+
+    public startSession(card: Card): void {
+        this.card = card;
+        this.wrongPinAttempts = 0;
+    }
+
+    /** Returns how many attempts are left. */
+    public recordWrongPin(): number {
+        this.wrongPinAttempts++;
+        return this.maxPinAttempts - this.wrongPinAttempts;
+    }
+
+    public retainCard(): void {
+        const card = this.getCard();
+        this.bank.blockCard(card);
+        this.retainedCards.push(card);
+        this.card = null;
+        this.setState(new IdleState(this));
+    }
+
+    public endSession(): Card {
+        const card = this.getCard();
+        this.card = null;
+        this.setState(new IdleState(this));
+        return card;
+    }
+}
+
 // Example usage
 const thousandHandler = new ThousandWorthHandler(10);
 const fiveHundredHandler = new FiveHundredWorthHandler(10);
@@ -166,4 +1380,290 @@ dispenseResponse = mainHandler.dispense(amountToDispense);
 console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
 
 console.log("\n================ remaining: ================");
-mainHandler.remainingNotes();
\ No newline at end of file
+mainHandler.remainingNotes();
+
+console.log("\n================ Exact fallback: 600 with one 500 and three 200s: ================");
+const fallbackFiveHundredHandler = new FiveHundredWorthHandler(1);
+const fallbackTwoHundredHandler = new TwoHundredWorthHandler(3);
+fallbackFiveHundredHandler.setNext(fallbackTwoHundredHandler);
+fallbackTwoHundredHandler.setNext(new HundredWorthHandler(0));
+dispenseResponse = new MainHandler(fallbackFiveHundredHandler).dispense(600);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+
+/**
+ * Exhaustive check of the dispensing modes: every inventory of up to 3 notes
+ * per cassette against every amount up to 4000. EXACT_FALLBACK must succeed
+ * exactly when a brute force search finds a combination, and whatever it
+ * hands out must add up to the amount and fit the inventory. Afterwards the
+ * cassettes must have lost exactly those notes, and none on a failure. Any
+ * failing case throws once all of them ran, so the run exits non-zero.
+ */
+function verifyDispenseMatrix(): void {
+    const noteValues = [1000, 500, 200, 100];
+    const buildChain = (counts: number[]): INoteHandler => {
+        const handlers = [
+            new ThousandWorthHandler(counts[0]),
+            new FiveHundredWorthHandler(counts[1]),
+            new TwoHundredWorthHandler(counts[2]),
+            new HundredWorthHandler(counts[3]),
+        ];
+        handlers.slice(1).forEach((handler, index) => handlers[index].setNext(handler));
+        return handlers[0];
+    };
+    const canPay = (amount: number, counts: number[], index: number = 0): boolean => {
+        if (amount === 0) {
+            return true;
+        }
+        if (index === noteValues.length) {
+            return false;
+        }
+        for (let notes = 0; notes <= counts[index] && notes * noteValues[index] <= amount; notes++) {
+            if (canPay(amount - notes * noteValues[index], counts, index + 1)) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    const log = console.log;
+    console.log = () => {}; // the handlers log every dispense
+    let cases = 0;
+    let greedyMisses = 0;
+    const failures: string[] = [];
+    for (let inventory = 0; inventory < Math.pow(4, noteValues.length); inventory++) {
+        const counts = noteValues.map((_, index) => Math.floor(inventory / Math.pow(4, index)) % 4);
+        for (let amount = 100; amount <= 4000; amount += 100) {
+            cases++;
+            const expected = canPay(amount, counts);
+            const greedy = new MainHandler(buildChain(counts), { mode: DISPENSE_MODE.GREEDY }).dispense(amount);
+            greedyMisses += expected && !greedy.success ? 1 : 0;
+            const exactHandler = new MainHandler(buildChain(counts), { mode: DISPENSE_MODE.EXACT_FALLBACK });
+            const response = exactHandler.dispense(amount);
+            const total = Object.keys(response.notesDispensed)
+                .reduce((sum, noteValue) => sum + Number(noteValue) * response.notesDispensed[Number(noteValue)], 0);
+            const fits = noteValues.every((noteValue, index) => (response.notesDispensed[noteValue] || 0) <= counts[index]);
+            const leftUntouched = exactHandler.getHandlers().every((handler, index) =>
+                handler.getRemainingNotes() === counts[index] - (response.success ? response.notesDispensed[noteValues[index]] || 0 : 0)
+                && handler.getAvailableNotes() === handler.getRemainingNotes());
+            if (response.success !== expected || !leftUntouched || (response.success && (total !== amount || !fits))) {
+                failures.push(`${amount} with [${counts}] -> ${JSON.stringify(response)}`);
+            }
+        }
+    }
+    console.log = log;
+    console.log(`${cases} cases, greedy alone missed ${greedyMisses}, exact fallback failed ${failures.length}`);
+    failures.slice(0, 10).forEach(failure => console.log(`  ${failure}`));
+    if (failures.length) {
+        throw new Error(`Dispense matrix failed ${failures.length} of ${cases} cases`);
+    }
+}
+
+console.log("\n================ Cassettes of 2000, 200 and 50: ================");
+const cassetteMainHandler = MainHandler.fromCassettes([
+    { noteValue: 200, noteCount: 20, capacity: 100 },
+    { noteValue: 2000, noteCount: 2, capacity: 50 },
+    { noteValue: 50, noteCount: 10, capacity: 100 },
+]);
+console.log(`Withdrawal rules: ${JSON.stringify(cassetteMainHandler.getWithdrawalRules())}`);
+dispenseResponse = cassetteMainHandler.dispense(4450);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+dispenseResponse = cassetteMainHandler.dispense(120);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+
+console.log("\n================ Unloading the 50s and refilling the 2000s: ================");
+cassetteMainHandler.unload(50);
+cassetteMainHandler.refill(2000, 10);
+console.log(`Withdrawal rules: ${JSON.stringify(cassetteMainHandler.getWithdrawalRules())}`);
+cassetteMainHandler.remainingNotes();
+
+console.log("\n================ Exhaustive dispense check: ================");
+verifyDispenseMatrix();
+
+console.log("\n================ Dispenser fails after the 500s of 1800: ================");
+let ejectCalls = 0;
+const failingMainHandler = MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 10 },
+    { noteValue: 100, noteCount: 10 },
+], {
+    dispenser: {
+        eject: () => {
+            if (ejectCalls++ > 0) {
+                throw new Error("Dispenser lost power");
+            }
+        },
+    },
+});
+dispenseResponse = failingMainHandler.dispense(1800);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse)}`);
+failingMainHandler.remainingNotes();
+
+console.log("\n================ Note mix strategies for 3000: ================");
+const mixMainHandler = MainHandler.fromCassettes([
+    { noteValue: 1000, noteCount: 10 },
+    { noteValue: 500, noteCount: 40 },
+    { noteValue: 200, noteCount: 20 },
+    { noteValue: 100, noteCount: 30 },
+]);
+[
+    new SmallChangeStrategy(),
+    new SmallChangeStrategy(3, 200),
+    new BalanceDepletionStrategy(),
+    new CustomerChosenStrategy([500, 200]),
+    new CustomerChosenStrategy([1000]),
+].forEach(strategy => {
+    dispenseResponse = mixMainHandler.dispense(3000, strategy);
+    console.log(`${strategy.getName()}: ${JSON.stringify(dispenseResponse)}`);
+});
+mixMainHandler.remainingNotes();
+
+console.log("\n================ Small change with the 100s empty: ================");
+const noChangeMainHandler = MainHandler.fromCassettes([
+    { noteValue: 1000, noteCount: 10 },
+    { noteValue: 100, noteCount: 0 },
+]);
+dispenseResponse = noChangeMainHandler.dispense(3000, new SmallChangeStrategy());
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse)}`);
+if (dispenseResponse.success || noChangeMainHandler.getInventory().totalAmount !== 10000) {
+    throw new Error("SMALL_CHANGE paid 3000 without any 100s");
+}
+
+console.log("\n================ Inventory monitoring: ================");
+let monitorTime = new Date("2024-01-01T08:00:00Z");
+const monitoredMainHandler = MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 40, capacity: 100 },
+    { noteValue: 100, noteCount: 60, capacity: 200 },
+]);
+const inventoryMonitor = new InventoryMonitor(monitoredMainHandler, () => monitorTime);
+inventoryMonitor.setLowWaterMark(500, 20);
+inventoryMonitor.setLowWaterMark(100, 10);
+[2500, 1800, 3000, 2200, 4000, 1500].forEach(amount => {
+    monitorTime = new Date(monitorTime.getTime() + 60 * 60 * 1000);
+    monitoredMainHandler.dispense(amount);
+});
+console.log(`Inventory: ${JSON.stringify(monitoredMainHandler.getInventory())}`);
+console.log(`Active alerts: ${JSON.stringify(inventoryMonitor.getActiveAlerts())}`);
+console.log(`Dispenses logged: ${inventoryMonitor.getDispenseLog().length}`);
+console.log(`Forecast: ${JSON.stringify(inventoryMonitor.forecast(), null, 2)}`);
+monitoredMainHandler.refill(500, 50);
+console.log(`Active alerts after refill: ${JSON.stringify(inventoryMonitor.getActiveAlerts())}`);
+
+console.log("\n================ Dispenser jams after 4 notes of 1800: ================");
+const jammingMainHandler = MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 10 },
+    { noteValue: 100, noteCount: 10 },
+], { dispenser: new JammingNoteDispenser(4) });
+dispenseResponse = jammingMainHandler.dispense(1800);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+jammingMainHandler.remainingNotes();
+dispenseResponse = jammingMainHandler.dispense(500);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+jammingMainHandler.remainingNotes();
+
+console.log("\n================ ATM session: ================");
+const bank = new Bank();
+bank.openAccount("ACC-1", 5000);
+const card = bank.issueCard("4111-1111", "ACC-1", "1234");
+const atm = new ATM(MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 10 },
+    { noteValue: 100, noteCount: 20 },
+]), bank);
+
+atm.insertCard(card);
+atm.enterPin("0000");
+atm.enterPin("1234");
+atm.selectTransaction(TRANSACTION_TYPE.BALANCE_ENQUIRY);
+console.log(`Balance: ${atm.checkBalance()}`);
+atm.ejectCard();
+
+atm.insertCard(card);
+atm.enterPin("1234");
+atm.selectTransaction(TRANSACTION_TYPE.WITHDRAWAL);
+dispenseResponse = atm.withdraw(1700);
+console.log(`Dispense Response: ${JSON.stringify(dispenseResponse, null, 2)}`);
+atm.ejectCard();
+console.log(`Balance after withdrawal: ${bank.getAccount("ACC-1").getBalance()}`);
+
+console.log("\n================ ATM session: strategy fails while dispensing: ================");
+atm.insertCard(card);
+atm.enterPin("1234");
+atm.selectTransaction(TRANSACTION_TYPE.WITHDRAWAL);
+try {
+    atm.withdraw(500, {
+        getName: () => "BROKEN",
+        plan: () => { throw new Error("strategy failed"); },
+    });
+} catch (error) {
+    console.log(`Withdrawal failed: ${(error as Error).message}, state ${atm.getState()}`);
+}
+console.log(`Card ${atm.ejectCard().getCardNumber()} ejected, balance still ${bank.getAccount("ACC-1").getBalance()}`);
+
+console.log("\n================ ATM session: wrong PIN three times: ================");
+atm.insertCard(card);
+atm.enterPin("1111");
+atm.enterPin("2222");
+atm.enterPin("3333");
+console.log(`State: ${atm.getState()}, retained cards: ${atm.getRetainedCards().map(retained => retained.getCardNumber())}`);
+atm.insertCard(card);
+
+console.log("\n================ Withdrawal limits: ================");
+let limitTime = new Date("2024-01-01T09:00:00Z");
+const limitBank = new Bank();
+limitBank.openAccount("ACC-2", 100000);
+const limitCard = limitBank.issueCard("4222-2222", "ACC-2", "4321");
+const limitMainHandler = MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 100 },
+    { noteValue: 100, noteCount: 100 },
+]);
+const limitedAtm = new ATM(
+    limitMainHandler,
+    limitBank,
+    3,
+    { perTransaction: 10000, dailyAmount: 20000, dailyCount: 3 },
+    () => limitTime
+);
+const withdrawWithLimits = (amount: number): void => {
+    limitedAtm.insertCard(limitCard);
+    limitedAtm.enterPin("4321");
+    limitedAtm.selectTransaction(TRANSACTION_TYPE.WITHDRAWAL);
+    const response = limitedAtm.withdraw(amount);
+    console.log(`${limitTime.toISOString()} withdraw ${amount}: success ${response.success}, reason ${response.reason}`);
+    limitedAtm.ejectCard();
+};
+withdrawWithLimits(12000);
+withdrawWithLimits(9000);
+withdrawWithLimits(9000);
+withdrawWithLimits(3000);
+withdrawWithLimits(1000);
+withdrawWithLimits(500);
+limitTime = new Date("2024-01-02T09:30:00Z");
+withdrawWithLimits(9000);
+
+console.log("\n================ Cash deposit: ================");
+const depositMainHandler = MainHandler.fromCassettes([
+    { noteValue: 500, noteCount: 8, capacity: 10 },
+    { noteValue: 100, noteCount: 0, capacity: 50 },
+], {
+    noteValidator: new SerialNumberNoteValidator(["2CD000002"]),
+    clock: () => new Date("2024-01-01T10:00:00Z"),
+});
+const depositBank = new Bank();
+depositBank.openAccount("ACC-3", 1000);
+const depositCard = depositBank.issueCard("4333-3333", "ACC-3", "1111");
+const depositAtm = new ATM(depositMainHandler, depositBank);
+depositAtm.insertCard(depositCard);
+depositAtm.enterPin("1111");
+depositAtm.selectTransaction(TRANSACTION_TYPE.DEPOSIT);
+const depositReceipt = depositAtm.deposit([
+    { noteValue: 500, serialNumber: "1AB000001" },
+    { noteValue: 500, serialNumber: "1AB000002" },
+    { noteValue: 500, serialNumber: "1AB000003" },
+    { noteValue: 100, serialNumber: "3EF000001" },
+    { noteValue: 100, serialNumber: "3EF000001" },
+    { noteValue: 100, serialNumber: "2CD000002" },
+    { noteValue: 100, serialNumber: "not-a-serial" },
+    { noteValue: 2000, serialNumber: "4GH000001" },
+]);
+depositAtm.ejectCard();
+console.log(`Deposit Receipt: ${JSON.stringify(depositReceipt, null, 2)}`);
+console.log(`Balance after deposit: ${depositBank.getAccount("ACC-3").getBalance()}`);
+depositMainHandler.remainingNotes();
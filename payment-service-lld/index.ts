@@ -1,3 +1,8 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+
 class PaymentUser {
     constructor(private username: string) {}
 
@@ -8,6 +13,12 @@ class PaymentUser {
     }
 }
 
+/**
+ * Gateways are looked up by the key they registered with in PaymentGatewayRegistry,
+ * GATEWAY_TYPE only names the ones shipped with this service.
+ */
+type GatewayKey = string;
+
 enum GATEWAY_TYPE {
     GPAY = "GPay",
     PAYTM = "Paytm",
@@ -19,404 +30,5405 @@ class IDGenerator {
     }
 }
 
-interface IPaymentReq {
-    id: string;
-    sender: PaymentUser;
-    receiver: PaymentUser;
-    amount: number;
-    gatewayType: GATEWAY_TYPE;
-    message?: string;
-}
-
-class PaymentReq {
-    private id: string;
-    constructor(
-        private sender: PaymentUser,
-        private receiver: PaymentUser,
-        private amount: number,
-        private gatewayType: GATEWAY_TYPE,
-        private message?: string
-    ) {
-        const id = IDGenerator.generate();
-        this.id = id;
-    }
+/** Minor units per major unit as a power of ten, e.g. 1 INR = 10^2 paise. */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+    INR: 2,
+    USD: 2,
+    EUR: 2,
+    JPY: 0,
+};
 
-    get getDetails(): IPaymentReq {
-        return {
-            id: this.id,
-            sender: this.sender,
-            receiver: this.receiver,
-            amount: this.amount,
-            gatewayType: this.gatewayType,
-            message: this.message
-        };
-    }
+interface IMoneyRecord {
+    minorUnits: number;
+    currency: string;
 }
 
-class PaymentReqController {
-    private static instance: PaymentReqController
-    private PaymentReqs: Map<string, PaymentReq> = new Map();
+/**
+ * Amounts are kept as integer minor units (paise, cents) with an ISO 4217
+ * currency so that adding and comparing them never goes through floats.
+ */
+class Money {
+    private constructor(private minorUnits: number, private currency: string) {}
 
-    getInstance(): PaymentReqController {
-        if (!PaymentReqController.instance) {
-            PaymentReqController.instance = new PaymentReqController();
+    static ofMinor(minorUnits: number, currency: string): Money {
+        if (!Number.isInteger(minorUnits)) {
+            throw new Error(`Money needs whole minor units, got ${minorUnits}`);
         }
-        return PaymentReqController.instance;
+        if (CURRENCY_EXPONENTS[currency] === undefined) {
+            throw new Error(`Unsupported currency ${currency}`);
+        }
+        return new Money(minorUnits, currency);
     }
 
-    create(
-        sender: PaymentUser,
-        receiver: PaymentUser,
-        amount: number,
-        gatewayType: GATEWAY_TYPE,
-        message?: string
-    ) {
-        const newPaymentReq = new PaymentReq(
-            sender,
-            receiver,
-            amount,
-            gatewayType,
-            message
-        );
+    /** Builds money from a major unit amount, e.g. Money.of(10.5, "USD"). */
+    static of(amount: number, currency: string): Money {
+        return Money.ofMinor(Math.round(amount * Money.factor(currency)), currency);
+    }
 
-        this.PaymentReqs.set(newPaymentReq.getDetails.id, newPaymentReq);
+    static zero(currency: string): Money {
+        return Money.ofMinor(0, currency);
+    }
 
-        return newPaymentReq;
+    static factor(currency: string): number {
+        return Math.pow(10, CURRENCY_EXPONENTS[currency]);
     }
 
-    list(): PaymentReq[] {
-        return Array.from(this.PaymentReqs.values());
+    getMinorUnits(): number {
+        return this.minorUnits;
     }
-}
 
-interface IResponse {
-    data: object
-    statusCode: number
-}
+    getCurrency(): string {
+        return this.currency;
+    }
 
-abstract class IPaymentGateway {
-    abstract validate(paymentReq: PaymentReq): boolean;
-    abstract process(paymentReq: PaymentReq): void;
-    abstract confirm(paymentReq: PaymentReq): IResponse;
+    toMajor(): number {
+        return this.minorUnits / Money.factor(this.currency);
+    }
 
-    processPayment(paymentReq: PaymentReq) {
-        try {
-            this.validate(paymentReq);
-            this.process(paymentReq);
-            this.confirm(paymentReq);
-        } catch (error) {
-            throw error;
-        }
+    add(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minorUnits + other.minorUnits, this.currency);
     }
-}
 
-class PaytmGateway extends IPaymentGateway {
-    validate(paymentReq: PaymentReq) {
-        console.log(`PAYTM gateway :: validation :: ${paymentReq.getDetails.id}`)
-        return true
+    subtract(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minorUnits - other.minorUnits, this.currency);
     }
 
-    process(paymentReq: PaymentReq) {
-        console.log(`PAYTM gateway :: process :: ${paymentReq.getDetails.id}`)
+    isPositive(): boolean {
+        return this.minorUnits > 0;
     }
 
-    confirm(paymentReq: PaymentReq): IResponse {
-        console.log(`PAYTM gateway :: confirm :: ${paymentReq.getDetails.id}`)
-        return { data: {}, statusCode: 200 }
+    isZero(): boolean {
+        return this.minorUnits === 0;
     }
-}
 
+    equals(other: Money): boolean {
+        return this.currency === other.currency && this.minorUnits === other.minorUnits;
+    }
 
-class GPayGateway extends IPaymentGateway {
-    validate(paymentReq: PaymentReq) {
-        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
-        return true
+    greaterThan(other: Money): boolean {
+        this.assertSameCurrency(other);
+        return this.minorUnits > other.minorUnits;
     }
 
-    process(paymentReq: PaymentReq) {
-        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
+    toString(): string {
+        return `${this.toMajor().toFixed(CURRENCY_EXPONENTS[this.currency])} ${this.currency}`;
     }
 
-    confirm(paymentReq: PaymentReq): IResponse {
-        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
-        return { data: {}, statusCode: 200 }
+    toRecord(): IMoneyRecord {
+        return { minorUnits: this.minorUnits, currency: this.currency };
     }
-}
 
-class PaymentGatewayFactory {
-    static createGateway(gatewayType: GATEWAY_TYPE): IPaymentGateway {
-        switch (gatewayType) {
-            case GATEWAY_TYPE.GPAY:
-                return new GPayGateway();
-            case GATEWAY_TYPE.PAYTM:
-                return new PaytmGateway();
-            default:
-                throw new Error("Invalid gateway type");
+    static fromRecord(record: IMoneyRecord): Money {
+        return Money.ofMinor(record.minorUnits, record.currency);
+    }
+
+    private assertSameCurrency(other: Money) {
+        if (this.currency !== other.currency) {
+            throw new Error(`Currency mismatch ${this.currency} vs ${other.currency}`);
         }
     }
 }
 
+enum ROUNDING_MODE {
+    HALF_UP = "HALF_UP", // ties away from zero, like Money.of
+    HALF_EVEN = "HALF_EVEN", // ties to the even neighbour, doesn't drift over many conversions
+    DOWN = "DOWN", // towards zero
+}
+
+interface IFxRateRecord {
+    numerator: number;
+    denominator: number;
+}
+
 /**
- * In this design proxy introduces because requirements was to add retries.
- * but in real if we are calling gateway apis using axios than we can
- * use axiosRetry. so the main purpose if proxy class is to handle
- * custom logic which is not responsibility of original gateway classes.
+ * An exchange rate kept as a reduced fraction of integers, so the inverse of
+ * 83 stays exactly 1/83 and converting minor units never goes through a float.
  */
-class PaymentGatewayProxy extends IPaymentGateway {
-    private realGateway: IPaymentGateway;
-    constructor(gateWayType: GATEWAY_TYPE) {
-        super();
-        this.realGateway = PaymentGatewayFactory.createGateway(gateWayType);
-    }
+class FxRate {
+    private constructor(readonly numerator: number, readonly denominator: number) {}
 
-    validate(paymentReq: PaymentReq) {
-        console.log(`\nPaymentGatewayProxy :: validate :: STARTS ${paymentReq.getDetails.id}`)
-        const res = this.realGateway.validate(paymentReq);
-        console.log(`PaymentGatewayProxy :: validate :: ENDS ${paymentReq.getDetails.id}`)
-        return res
+    static of(numerator: number, denominator: number = 1): FxRate {
+        if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator) || numerator <= 0 || denominator <= 0) {
+            throw new Error(`FX rate must be a positive fraction of integers, got ${numerator}/${denominator}`);
+        }
+        const divisor = FxRate.gcd(numerator, denominator);
+        return new FxRate(numerator / divisor, denominator / divisor);
     }
 
-    process(paymentReq: PaymentReq) {
-        const retryCount = 3;
-        let attempts = 0;
-        while (attempts < retryCount) {
-            try {
-                console.log(`\nPaymentGatewayProxy :: process :: STARTS ${paymentReq.getDetails.id}`)
+    /** Reads a decimal like "83" or "0.0120" digit by digit, as a number literal it would already be rounded. */
+    static parse(rate: string): FxRate {
+        const match = /^(\d+)(?:\.(\d+))?$/.exec(rate);
+        if (!match) {
+            throw new Error(`FX rate must be a decimal, got ${rate}`);
+        }
+        const fraction = match[2] ?? "";
+        return FxRate.of(Number(match[1] + fraction), Math.pow(10, fraction.length));
+    }
 
-                /** uncomment to check retry */
-                // if (attempts < 2) throw new Error("First request will fail");
+    inverse(): FxRate {
+        return new FxRate(this.denominator, this.numerator);
+    }
 
-                this.realGateway.process(paymentReq);
-                console.log(`PaymentGatewayProxy :: process :: ENDS ${paymentReq.getDetails.id}`)
-                break;
-            } catch (error) {
-                if (attempts < retryCount) {
-                    console.error(`Process failed. Retrying... (Attempt ${attempts + 1} of ${retryCount})`);
-                    attempts++;
-                } else { 
-                    throw error
-                }
-            }
+    /** Minor units times the rate, scaled between the currencies' exponents and rounded once at the end. */
+    convert(money: Money, toCurrency: string, roundingMode: ROUNDING_MODE): Money {
+        const scaled = FxRate.of(this.numerator * Money.factor(toCurrency), this.denominator * Money.factor(money.getCurrency()));
+        const numerator = money.getMinorUnits() * scaled.numerator;
+        if (!Number.isSafeInteger(numerator)) {
+            throw new Error(`${money} is too large to convert exactly at ${this}`);
         }
+        return Money.ofMinor(FxRate.divide(numerator, scaled.denominator, roundingMode), toCurrency);
     }
 
-    confirm(paymentReq: PaymentReq): IResponse {
-        console.log(`\nPaymentGatewayProxy :: confirm :: STARTS ${paymentReq.getDetails.id}`)
-        const response = this.realGateway.confirm(paymentReq);
-        console.log(`PaymentGatewayProxy :: confirm :: ENDS ${paymentReq.getDetails.id}`)
-        return response;
+    toString(): string {
+        return this.denominator === 1 ? `${this.numerator}` : `${this.numerator}/${this.denominator}`;
     }
-}
 
-class PaymentService {
-    private proxy: PaymentGatewayProxy;
-    constructor(gatewayType: GATEWAY_TYPE) {
-        this.proxy = new PaymentGatewayProxy(gatewayType);
+    toRecord(): IFxRateRecord {
+        return { numerator: this.numerator, denominator: this.denominator };
+    }
+
+    private static gcd(a: number, b: number): number {
+        return b === 0 ? a : FxRate.gcd(b, a % b);
     }
 
-    processPayment(paymentReq: PaymentReq) {
-        this.proxy.processPayment(paymentReq)
+    private static divide(numerator: number, denominator: number, roundingMode: ROUNDING_MODE): number {
+        const magnitude = Math.abs(numerator);
+        let quotient = Math.floor(magnitude / denominator);
+        let remainder = magnitude - quotient * denominator;
+        // the float division can be one off for large values, the remainder tells
+        if (remainder < 0) {
+            quotient--;
+            remainder += denominator;
+        } else if (remainder >= denominator) {
+            quotient++;
+            remainder -= denominator;
+        }
+        const twice = remainder * 2;
+        if ((roundingMode === ROUNDING_MODE.HALF_UP && twice >= denominator)
+            || (roundingMode === ROUNDING_MODE.HALF_EVEN && (twice > denominator || (twice === denominator && quotient % 2 === 1)))) {
+            quotient++;
+        }
+        return numerator < 0 ? -quotient : quotient;
     }
 }
 
-interface ISchedulerJobDetails {
-    fromUserId: string;
-    toUserId: string;
-    startDate: Date;
-    endDate: Date;
-    gatewayType: GATEWAY_TYPE;
-    frequencyInSeconds: number;
-    nextBillingDate: Date;
+interface IFxConversion {
+    from: Money;
+    to: Money;
+    rate: FxRate;
+    roundingMode: ROUNDING_MODE;
+    convertedAt: Date;
 }
 
-class ISchedulerJob {
-    private nextBillingDate: Date;
-    constructor(
-        private fromUserId: string,
-        private toUserId: string,
-        private startDate: Date,
-        private endDate: Date,
-        private gatewayType: GATEWAY_TYPE,
-        private frequencyInSeconds: number, // this would be in days
-    ) {
-        this.nextBillingDate = this.startDate;
+abstract class IFxRateProvider {
+    abstract getRate(fromCurrency: string, toCurrency: string): FxRate;
+    abstract hasRate(fromCurrency: string, toCurrency: string): boolean;
+}
+
+/** Fixed rates set by hand, a real provider would fetch them from a rates API. */
+class StaticFxRateTable extends IFxRateProvider {
+    private rates: Map<string, FxRate> = new Map();
+
+    /** rate is a decimal string, e.g. "83" for 1 USD = 83 INR. */
+    setRate(fromCurrency: string, toCurrency: string, rate: string) {
+        this.rates.set(`${fromCurrency}:${toCurrency}`, FxRate.parse(rate));
     }
 
-    scheduleNextBilling() {
-        const now = new Date();
-        if (now >= this.endDate) {
-            console.log("Scheduler Job ends for this user.")
-            return;
+    getRate(fromCurrency: string, toCurrency: string): FxRate {
+        if (fromCurrency === toCurrency) {
+            return FxRate.of(1);
+        }
+        const rate = this.rates.get(`${fromCurrency}:${toCurrency}`);
+        if (rate !== undefined) {
+            return rate;
         }
-        // here we will use dayjs.add functionality instead of this
-        this.nextBillingDate = new Date(now.getTime() + this.frequencyInSeconds * 1000);
-        console.log(`Next billing scheduled for ${this.nextBillingDate.toLocaleString()}`);
+        const inverse = this.rates.get(`${toCurrency}:${fromCurrency}`);
+        if (inverse !== undefined) {
+            return inverse.inverse();
+        }
+        throw new Error(`No FX rate for ${fromCurrency} -> ${toCurrency}`);
     }
 
-    public getDetails(): ISchedulerJobDetails {
-        return {
-            fromUserId: this.fromUserId,
-            toUserId: this.toUserId,
-            startDate: this.startDate,
-            endDate: this.endDate,
-            gatewayType: this.gatewayType,
-            frequencyInSeconds: this.frequencyInSeconds,
-            nextBillingDate: this.nextBillingDate,
-        }   
+    hasRate(fromCurrency: string, toCurrency: string): boolean {
+        return fromCurrency === toCurrency || this.rates.has(`${fromCurrency}:${toCurrency}`) || this.rates.has(`${toCurrency}:${fromCurrency}`);
     }
 }
 
-class SchedulerController {
-    private schedulerJobs: Map<string, ISchedulerJob> = new Map();
-    private static instance: SchedulerController;
-    constructor() {}
-    static getInstance(): SchedulerController {
-        if (!SchedulerController.instance) {
-            SchedulerController.instance = new SchedulerController();
+class FxService {
+    private static instance: FxService;
+    private rateProvider: IFxRateProvider;
+    private roundingMode: ROUNDING_MODE = ROUNDING_MODE.HALF_UP;
+
+    constructor() {
+        const rateTable = new StaticFxRateTable();
+        rateTable.setRate("USD", "INR", "83");
+        rateTable.setRate("EUR", "INR", "90");
+        this.rateProvider = rateTable;
+    }
+
+    static getInstance(): FxService {
+        if (!FxService.instance) {
+            FxService.instance = new FxService();
         }
-        return SchedulerController.instance;
+        return FxService.instance;
     }
 
-    createSchedulerJob(
-        fromUserId: string,
-        toUserId: string,
-        startDate: Date,
-        endDate: Date,
-        gatewayType: GATEWAY_TYPE,
-        frequencyInSeconds: number
-    ) {
-        const jobId = IDGenerator.generate();
-        const newSchedulerJob = new ISchedulerJob(
-            fromUserId,
-            toUserId,
-            startDate,
-            endDate,
-            gatewayType,
-            frequencyInSeconds
-        );
-        
-        this.schedulerJobs.set(jobId, newSchedulerJob);
-        console.log(`Scheduler job created with ID: ${jobId}`);
-        return jobId;
+    setRateProvider(rateProvider: IFxRateProvider) {
+        this.rateProvider = rateProvider;
     }
 
-    getSchedulerJobs(): ISchedulerJob[] {
-        return Array.from(this.schedulerJobs.values());
+    hasRate(fromCurrency: string, toCurrency: string): boolean {
+        return this.rateProvider.hasRate(fromCurrency, toCurrency);
+    }
+
+    setRoundingMode(roundingMode: ROUNDING_MODE) {
+        this.roundingMode = roundingMode;
+    }
+
+    convert(money: Money, toCurrency: string): IFxConversion {
+        const rate = this.rateProvider.getRate(money.getCurrency(), toCurrency);
+        const to = rate.convert(money, toCurrency, this.roundingMode);
+        return { from: money, to, rate, roundingMode: this.roundingMode, convertedAt: new Date() };
     }
 }
 
-/** In real instead of this class we would be using original cron service like aws cloudwatch scheduler 
- * And scheduler job controller will be creating cron in that service. And scheduler job record will also be created
- * at the same time but it would be to store data in DB. so that user can fetch info
-*/
-class SchedulerJobCron {
-    private static instance: SchedulerJobCron;
-    private intervalId: number | null = null;
-    
-    constructor() {}
-    
-    static getInstance(): SchedulerJobCron {
-        if (!SchedulerJobCron.instance) {
-            SchedulerJobCron.instance = new SchedulerJobCron();
+/** Turns an entity into a plain JSON record and back, used by FileRepository. */
+interface IRecordMapper<T> {
+    getId(entity: T): string;
+    toRecord(entity: T): object;
+    fromRecord(record: unknown): T;
+}
+
+/**
+ * Reads a stored record field by field. A file can be edited by hand or
+ * written by an older version, so every field is checked and the first one
+ * that doesn't fit throws with its path instead of leaving a broken entity.
+ */
+class RecordReader {
+    private constructor(private fields: Record<string, unknown>, private path: string) {}
+
+    static of(record: unknown, path: string): RecordReader {
+        if (typeof record !== "object" || record === null || Array.isArray(record)) {
+            throw new Error(`${path} must be an object`);
         }
-        return SchedulerJobCron.instance;
+        return new RecordReader(record as Record<string, unknown>, path);
     }
-    
-    start() {
-        if (this.intervalId) {
-            console.log("Scheduler cron is already running");
-            return;
+
+    has(field: string): boolean {
+        return this.fields[field] !== undefined && this.fields[field] !== null;
+    }
+
+    string(field: string): string {
+        return this.typed(field, "string", value => typeof value === "string") as string;
+    }
+
+    optionalString(field: string): string | undefined {
+        return this.has(field) ? this.string(field) : undefined;
+    }
+
+    number(field: string): number {
+        return this.typed(field, "number", value => typeof value === "number" && Number.isFinite(value)) as number;
+    }
+
+    numbers(field: string): number[] {
+        return this.array(field).map((value, index) => RecordReader.of({ value }, `${this.path}.${field}[${index}]`).number("value"));
+    }
+
+    strings(field: string): string[] {
+        return this.array(field).map((value, index) => RecordReader.of({ value }, `${this.path}.${field}[${index}]`).string("value"));
+    }
+
+    date(field: string): Date {
+        const date = new Date(this.string(field));
+        if (isNaN(date.getTime())) {
+            throw new Error(`${this.path}.${field} must be a date`);
         }
-        
-        console.log("Starting scheduler cron job...");
-        this.intervalId = setInterval(() => {
-            this.processScheduledJobs();
-        }, 1000); // Check every second
+        return date;
     }
-    
-    stop() {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
-            console.log("Scheduler cron job stopped");
+
+    optionalDate(field: string): Date | undefined {
+        return this.has(field) ? this.date(field) : undefined;
+    }
+
+    oneOf<T extends string>(field: string, enumObject: Record<string, T>): T {
+        const values = Object.keys(enumObject).map(key => enumObject[key]);
+        const value = this.string(field);
+        if (!values.some(candidate => candidate === value)) {
+            throw new Error(`${this.path}.${field} must be one of ${values.join(", ")}`);
         }
+        return value as T;
     }
-    
-    private processScheduledJobs() {
-        const schedulerController = SchedulerController.getInstance();
-        const jobs = schedulerController.getSchedulerJobs();
-        const now = new Date();
-        
-        jobs.forEach(job => {
-            const jobDetails = job.getDetails();
-            if (now >= jobDetails.nextBillingDate && now <= jobDetails.endDate) {
-                console.log(`\n ========> Processing scheduled payment for job: ${jobDetails.fromUserId} -> ${jobDetails.toUserId}`);
-                
-                // Create users for the scheduled payment
-                const fromUser = new PaymentUser(jobDetails.fromUserId);
-                const toUser = new PaymentUser(jobDetails.toUserId);
-                
-                // Create payment request
-                const paymentReqController = new PaymentReqController().getInstance();
-                const latestPaymentReq = paymentReqController.create(fromUser, toUser, 100, jobDetails.gatewayType, "Scheduled payment");
-                
-                // Process the payment
-                const paymentService = new PaymentService(jobDetails.gatewayType);
-                paymentService.processPayment(latestPaymentReq);
-                
-                // Schedule next billing
-                job.scheduleNextBilling();
 
-                console.log(`\n ========> DONE : ${jobDetails.fromUserId} -> ${jobDetails.toUserId}`);
-            }
-        });
+    money(field: string): Money {
+        const record = this.object(field);
+        return Money.fromRecord({ minorUnits: record.number("minorUnits"), currency: record.string("currency") });
+    }
+
+    fxRate(field: string): FxRate {
+        const record = this.object(field);
+        return FxRate.of(record.number("numerator"), record.number("denominator"));
     }
-}
 
-/** // NORMAL USAGE *
-// const john = new PaymentUser('John Doe');
-// const jane = new PaymentUser('Jane Smith');
+    object(field: string): RecordReader {
+        return RecordReader.of(this.fields[field], `${this.path}.${field}`);
+    }
 
-// console.log("=========> Creating payment request...")
-// const paymentReqController = new PaymentReqController().getInstance();
-// paymentReqController.create(john, jane, 100, GATEWAY_TYPE.PAYTM, "Gift");
+    /** An object kept as it is, e.g. a gateway response we only hand back. */
+    plainObject(field: string): object {
+        return this.typed(field, "object", value => typeof value === "object" && value !== null && !Array.isArray(value)) as object;
+    }
 
-// console.log("=========> Listing all payment requests...")
-// const paymentReqs = paymentReqController.list();
-// console.log(paymentReqs);
+    optionalObject(field: string): RecordReader | undefined {
+        return this.has(field) ? this.object(field) : undefined;
+    }
 
-// console.log("=========> Processing a payment request...")
-// let paymentReq = paymentReqs[0];
-// let paymentService = new PaymentService(GATEWAY_TYPE.PAYTM);
-// paymentService.processPayment(paymentReq);
+    objects(field: string): RecordReader[] {
+        return this.array(field).map((record, index) => RecordReader.of(record, `${this.path}.${field}[${index}]`));
+    }
 
-// console.log("\n=========> Processing a payment request...")
-// paymentReq = paymentReqs[0];
-// paymentService = new PaymentService(GATEWAY_TYPE.GPAY);
-// paymentService.processPayment(paymentReq);
+    private array(field: string): unknown[] {
+        return this.typed(field, "array", value => Array.isArray(value)) as unknown[];
+    }
 
-/** Scheduler Job Usage */
-console.log("=========> Creating scheduler job...")
-const schedulerController = SchedulerController.getInstance();
-const startDate = new Date();
-const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days from now
-const frequencyInSeconds = 10; // Every 10 seconds for demo
+    private typed(field: string, type: string, isType: (value: unknown) => boolean): unknown {
+        const value = this.fields[field];
+        if (!isType(value)) {
+            throw new Error(`${this.path}.${field} must be ${type === "array" ? "an" : "a"} ${type}`);
+        }
+        return value;
+    }
+}
 
-const jobId = schedulerController.createSchedulerJob(
-    'user123',
-    'user456', 
-    startDate,
-    endDate,
-    GATEWAY_TYPE.PAYTM,
-    frequencyInSeconds
-);
+abstract class IRepository<T> {
+    abstract save(entity: T): void;
+    abstract findById(id: string): T | undefined;
+    abstract findAll(): T[];
+    abstract delete(id: string): void;
 
-console.log("=========> Starting scheduler cron...")
-const schedulerCron = SchedulerJobCron.getInstance();
-schedulerCron.start();
+    find(predicate: (entity: T) => boolean): T[] {
+        return this.findAll().filter(predicate);
+    }
+}
 
-// Let it run for a while to see scheduled payments
-setTimeout(() => {
-    console.log("=========> Stopping scheduler cron...")
-    schedulerCron.stop();
-}, 25000); // Stop after 25 seconds
\ No newline at end of file
+class InMemoryRepository<T> extends IRepository<T> {
+    private entities: Map<string, T> = new Map();
+    constructor(private getId: (entity: T) => string) {
+        super();
+    }
+
+    save(entity: T) {
+        this.entities.set(this.getId(entity), entity);
+    }
+
+    findById(id: string): T | undefined {
+        return this.entities.get(id);
+    }
+
+    findAll(): T[] {
+        return Array.from(this.entities.values());
+    }
+
+    delete(id: string) {
+        this.entities.delete(id);
+    }
+}
+
+/**
+ * Keeps every entity in memory (so callers always get the same instance back
+ * and mutate it in place) and rewrites a JSON file on each save. In real we
+ * would use a DB, but the controllers only see IRepository so that's a swap.
+ */
+class FileRepository<T> extends InMemoryRepository<T> {
+    constructor(private filePath: string, private mapper: IRecordMapper<T>) {
+        super(entity => mapper.getId(entity));
+        this.load();
+    }
+
+    save(entity: T) {
+        super.save(entity);
+        this.flush();
+    }
+
+    delete(id: string) {
+        super.delete(id);
+        this.flush();
+    }
+
+    private load() {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        const records: unknown = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+        if (!Array.isArray(records)) {
+            throw new Error(`${this.filePath} must hold a JSON array`);
+        }
+        records.forEach(record => super.save(this.mapper.fromRecord(record)));
+    }
+
+    /** Written to a temp file first so a crash mid-write never leaves a half written file behind. */
+    private flush() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const records = this.findAll().map(entity => this.mapper.toRecord(entity));
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+        fs.renameSync(tempPath, this.filePath);
+    }
+}
+
+enum PAYMENT_STATUS {
+    CREATED = "CREATED",
+    IN_REVIEW = "IN_REVIEW", // held by the risk engine until a reviewer decides
+    VALIDATED = "VALIDATED",
+    PROCESSING = "PROCESSING",
+    CONFIRMED = "CONFIRMED",
+    FAILED = "FAILED",
+    PARTIALLY_REFUNDED = "PARTIALLY_REFUNDED",
+    REFUNDED = "REFUNDED",
+}
+
+/**
+ * Allowed moves of the payment lifecycle. Anything not listed here is
+ * rejected by PaymentReq.transitionTo, so a FAILED payment can never be
+ * confirmed later and a payment can't be refunded before it is confirmed.
+ */
+const PAYMENT_STATUS_TRANSITIONS: Record<PAYMENT_STATUS, PAYMENT_STATUS[]> = {
+    [PAYMENT_STATUS.CREATED]: [PAYMENT_STATUS.VALIDATED, PAYMENT_STATUS.IN_REVIEW, PAYMENT_STATUS.FAILED],
+    [PAYMENT_STATUS.IN_REVIEW]: [PAYMENT_STATUS.VALIDATED, PAYMENT_STATUS.FAILED],
+    [PAYMENT_STATUS.VALIDATED]: [PAYMENT_STATUS.PROCESSING, PAYMENT_STATUS.FAILED],
+    [PAYMENT_STATUS.PROCESSING]: [PAYMENT_STATUS.CONFIRMED, PAYMENT_STATUS.FAILED],
+    [PAYMENT_STATUS.CONFIRMED]: [PAYMENT_STATUS.PARTIALLY_REFUNDED, PAYMENT_STATUS.REFUNDED],
+    [PAYMENT_STATUS.FAILED]: [],
+    [PAYMENT_STATUS.PARTIALLY_REFUNDED]: [PAYMENT_STATUS.PARTIALLY_REFUNDED, PAYMENT_STATUS.REFUNDED],
+    [PAYMENT_STATUS.REFUNDED]: [],
+};
+
+interface IStatusTransition {
+    from: PAYMENT_STATUS | null;
+    to: PAYMENT_STATUS;
+    at: Date;
+    reason?: string;
+}
+
+interface IPaymentReq {
+    id: string;
+    createdAt: Date;
+    sender: PaymentUser;
+    receiver: PaymentUser;
+    amount: Money;
+    settlementCurrency: string;
+    fxConversion?: IFxConversion;
+    gatewayType: GatewayKey;
+    message?: string;
+    status: PAYMENT_STATUS;
+    refundedAmount: Money;
+    idempotencyKey?: string;
+    gatewayReference?: string;
+    routedGatewayType?: GatewayKey;
+    routingReason?: string;
+    riskAssessment?: IRiskAssessment;
+}
+
+class PaymentReq {
+    private id: string;
+    private status: PAYMENT_STATUS = PAYMENT_STATUS.CREATED;
+    private statusHistory: IStatusTransition[] = [];
+    private refundedAmount: Money;
+    private settlementCurrency: string;
+    private fxConversion?: IFxConversion;
+    private idempotencyKey?: string;
+    private gatewayReference?: string;
+    private routedGatewayType?: GatewayKey;
+    private routingReason?: string;
+    private riskAssessment?: IRiskAssessment;
+    constructor(
+        private sender: PaymentUser,
+        private receiver: PaymentUser,
+        private amount: Money,
+        private gatewayType: GatewayKey,
+        private message?: string,
+        settlementCurrency?: string, // receiver's currency, defaults to the currency the sender pays in
+        private createdAt: Date = new Date()
+    ) {
+        const id = IDGenerator.generate();
+        this.id = id;
+        this.refundedAmount = Money.zero(amount.getCurrency());
+        this.settlementCurrency = settlementCurrency ?? amount.getCurrency();
+        this.statusHistory.push({ from: null, to: this.status, at: this.createdAt });
+    }
+
+    get getDetails(): IPaymentReq {
+        return {
+            id: this.id,
+            createdAt: this.createdAt,
+            sender: this.sender,
+            receiver: this.receiver,
+            amount: this.amount,
+            settlementCurrency: this.settlementCurrency,
+            fxConversion: this.fxConversion,
+            gatewayType: this.gatewayType,
+            message: this.message,
+            status: this.status,
+            refundedAmount: this.refundedAmount,
+            idempotencyKey: this.idempotencyKey,
+            gatewayReference: this.gatewayReference,
+            routedGatewayType: this.routedGatewayType,
+            routingReason: this.routingReason,
+            riskAssessment: this.riskAssessment
+        };
+    }
+
+    /** The gateway that actually handles the money, it differs from gatewayType after a failover. */
+    getProcessingGatewayType(): GatewayKey {
+        return this.routedGatewayType ?? this.gatewayType;
+    }
+
+    routeTo(gatewayType: GatewayKey, reason?: string) {
+        this.routedGatewayType = gatewayType;
+        this.routingReason = reason;
+    }
+
+    needsFx(): boolean {
+        return this.amount.getCurrency() !== this.settlementCurrency;
+    }
+
+    applyFx(fxConversion: IFxConversion) {
+        this.fxConversion = fxConversion;
+    }
+
+    /** What the receiver gets, in the settlement currency. */
+    getSettlementAmount(): Money {
+        return this.fxConversion ? this.fxConversion.to : this.amount;
+    }
+
+    /** Share of the settled amount matching a part of the paid amount, at the rate applied to this payment. */
+    getSettlementShare(amount: Money): Money {
+        if (!this.fxConversion) {
+            return amount;
+        }
+        const settlement = this.fxConversion.to;
+        const share = Math.round(amount.getMinorUnits() * settlement.getMinorUnits() / this.amount.getMinorUnits());
+        return Money.ofMinor(share, settlement.getCurrency());
+    }
+
+    setIdempotencyKey(idempotencyKey: string) {
+        this.idempotencyKey = idempotencyKey;
+    }
+
+    setRiskAssessment(riskAssessment: IRiskAssessment) {
+        this.riskAssessment = riskAssessment;
+    }
+
+    /** Set by the gateway once money is actually captured. */
+    setGatewayReference(gatewayReference: string) {
+        this.gatewayReference = gatewayReference;
+    }
+
+    getStatus(): PAYMENT_STATUS {
+        return this.status;
+    }
+
+    getStatusHistory(): IStatusTransition[] {
+        return [...this.statusHistory];
+    }
+
+    canTransitionTo(status: PAYMENT_STATUS): boolean {
+        return PAYMENT_STATUS_TRANSITIONS[this.status].includes(status);
+    }
+
+    transitionTo(status: PAYMENT_STATUS, reason?: string) {
+        if (!this.canTransitionTo(status)) {
+            throw new Error(`Invalid payment status transition ${this.status} -> ${status} for ${this.id}`);
+        }
+        this.statusHistory.push({ from: this.status, to: status, at: new Date(), reason });
+        this.status = status;
+    }
+
+    /** A new payment or one a reviewer let through, anything else is being or has been processed already. */
+    isProcessable(): boolean {
+        return this.status === PAYMENT_STATUS.CREATED
+            || (this.status === PAYMENT_STATUS.IN_REVIEW && this.riskAssessment?.decision === RISK_DECISION.ALLOW);
+    }
+
+    isRefundable(): boolean {
+        return this.status === PAYMENT_STATUS.CONFIRMED || this.status === PAYMENT_STATUS.PARTIALLY_REFUNDED;
+    }
+
+    /** Only a confirmed payment has captured money, so nothing else can be refunded. */
+    getRefundableAmount(): Money {
+        return this.isRefundable() ? this.amount.subtract(this.refundedAmount) : Money.zero(this.amount.getCurrency());
+    }
+
+    applyRefund(amount: Money, refundId: string) {
+        if (amount.greaterThan(this.getRefundableAmount())) {
+            throw new Error(`Refund ${refundId} of ${amount} exceeds refundable amount ${this.getRefundableAmount()} for ${this.id}`);
+        }
+        this.refundedAmount = this.refundedAmount.add(amount);
+        const status = this.refundedAmount.equals(this.amount) ? PAYMENT_STATUS.REFUNDED : PAYMENT_STATUS.PARTIALLY_REFUNDED;
+        this.transitionTo(status, `refund ${refundId} of ${amount}`);
+    }
+
+    toRecord(): object {
+        return {
+            ...this.getDetails,
+            sender: this.sender.getDetails().username,
+            receiver: this.receiver.getDetails().username,
+            amount: this.amount.toRecord(),
+            refundedAmount: this.refundedAmount.toRecord(),
+            fxConversion: this.fxConversion && {
+                ...this.fxConversion,
+                from: this.fxConversion.from.toRecord(),
+                to: this.fxConversion.to.toRecord(),
+                rate: this.fxConversion.rate.toRecord(),
+            },
+            statusHistory: this.statusHistory,
+        };
+    }
+
+    static fromRecord(record: unknown): PaymentReq {
+        const reader = RecordReader.of(record, "payment");
+        const paymentReq = new PaymentReq(
+            new PaymentUser(reader.string("sender")),
+            new PaymentUser(reader.string("receiver")),
+            reader.money("amount"),
+            reader.string("gatewayType"),
+            reader.optionalString("message"),
+            reader.string("settlementCurrency")
+        );
+        paymentReq.id = reader.string("id");
+        paymentReq.createdAt = reader.date("createdAt");
+        paymentReq.status = reader.oneOf("status", PAYMENT_STATUS);
+        paymentReq.statusHistory = reader.objects("statusHistory").map(transition => ({
+            from: transition.has("from") ? transition.oneOf("from", PAYMENT_STATUS) : null,
+            to: transition.oneOf("to", PAYMENT_STATUS),
+            at: transition.date("at"),
+            reason: transition.optionalString("reason"),
+        }));
+        paymentReq.refundedAmount = reader.money("refundedAmount");
+        const fxConversion = reader.optionalObject("fxConversion");
+        paymentReq.fxConversion = fxConversion && {
+            from: fxConversion.money("from"),
+            to: fxConversion.money("to"),
+            rate: fxConversion.fxRate("rate"),
+            roundingMode: fxConversion.oneOf("roundingMode", ROUNDING_MODE),
+            convertedAt: fxConversion.date("convertedAt"),
+        };
+        paymentReq.idempotencyKey = reader.optionalString("idempotencyKey");
+        paymentReq.gatewayReference = reader.optionalString("gatewayReference");
+        paymentReq.routedGatewayType = reader.optionalString("routedGatewayType");
+        paymentReq.routingReason = reader.optionalString("routingReason");
+        const riskAssessment = reader.optionalObject("riskAssessment");
+        paymentReq.riskAssessment = riskAssessment && {
+            decision: riskAssessment.oneOf("decision", RISK_DECISION),
+            score: riskAssessment.number("score"),
+            signals: riskAssessment.objects("signals").map(signal => ({
+                rule: signal.string("rule"),
+                score: signal.number("score"),
+                reason: signal.string("reason"),
+            })),
+            assessedAt: riskAssessment.date("assessedAt"),
+            reviewedBy: riskAssessment.optionalString("reviewedBy"),
+            reviewedAt: riskAssessment.optionalDate("reviewedAt"),
+            reviewNote: riskAssessment.optionalString("reviewNote"),
+        };
+        return paymentReq;
+    }
+}
+
+const PAYMENT_REQ_MAPPER: IRecordMapper<PaymentReq> = {
+    getId: paymentReq => paymentReq.getDetails.id,
+    toRecord: paymentReq => paymentReq.toRecord(),
+    fromRecord: PaymentReq.fromRecord,
+};
+
+enum REFUND_STATUS {
+    PENDING = "PENDING",
+    SUCCEEDED = "SUCCEEDED",
+    FAILED = "FAILED", // the gateway refused it, no money moved
+    NEEDS_RECONCILIATION = "NEEDS_RECONCILIATION", // the gateway refunded but our books didn't follow
+}
+
+interface IRefundReq {
+    id: string;
+    paymentReqId: string;
+    amount: Money;
+    status: REFUND_STATUS;
+    reason?: string;
+    failureReason?: string;
+    createdAt: Date;
+}
+
+class RefundReq {
+    private id: string;
+    private status: REFUND_STATUS = REFUND_STATUS.PENDING;
+    private failureReason?: string;
+    private createdAt: Date = new Date();
+    constructor(
+        private paymentReqId: string,
+        private amount: Money,
+        private reason?: string
+    ) {
+        this.id = IDGenerator.generate();
+    }
+
+    get getDetails(): IRefundReq {
+        return {
+            id: this.id,
+            paymentReqId: this.paymentReqId,
+            amount: this.amount,
+            status: this.status,
+            reason: this.reason,
+            failureReason: this.failureReason,
+            createdAt: this.createdAt
+        };
+    }
+
+    markSucceeded() {
+        this.status = REFUND_STATUS.SUCCEEDED;
+    }
+
+    markFailed(failureReason: string) {
+        this.status = REFUND_STATUS.FAILED;
+        this.failureReason = failureReason;
+    }
+
+    markNeedsReconciliation(failureReason: string) {
+        this.status = REFUND_STATUS.NEEDS_RECONCILIATION;
+        this.failureReason = failureReason;
+    }
+
+    toRecord(): object {
+        return { ...this.getDetails, amount: this.amount.toRecord() };
+    }
+
+    static fromRecord(record: unknown): RefundReq {
+        const reader = RecordReader.of(record, "refund");
+        const refundReq = new RefundReq(reader.string("paymentReqId"), reader.money("amount"), reader.optionalString("reason"));
+        refundReq.id = reader.string("id");
+        refundReq.status = reader.oneOf("status", REFUND_STATUS);
+        refundReq.failureReason = reader.optionalString("failureReason");
+        refundReq.createdAt = reader.date("createdAt");
+        return refundReq;
+    }
+}
+
+const REFUND_REQ_MAPPER: IRecordMapper<RefundReq> = {
+    getId: refundReq => refundReq.getDetails.id,
+    toRecord: refundReq => refundReq.toRecord(),
+    fromRecord: RefundReq.fromRecord,
+};
+
+/** Every field left out matches everything, from/to is an inclusive date range. */
+interface IPaymentReqQuery {
+    userId?: string; // sender or receiver
+    status?: PAYMENT_STATUS;
+    from?: Date;
+    to?: Date;
+}
+
+enum PAYMENT_EVENT_TYPE {
+    PAYMENT_CREATED = "PaymentCreated",
+    VALIDATION_PASSED = "ValidationPassed",
+    PAYMENT_HELD_FOR_REVIEW = "PaymentHeldForReview",
+    PROCESSING_STARTED = "ProcessingStarted",
+    PROCESS_ATTEMPT_FAILED = "ProcessAttemptFailed",
+    PAYMENT_CONFIRMED = "PaymentConfirmed",
+    PAYMENT_FAILED = "PaymentFailed",
+    REFUND_ISSUED = "RefundIssued",
+    SCHEDULED_BILLING_RUN = "ScheduledBillingRun",
+}
+
+/** Amounts are stored as IMoneyRecord so events can be written to the audit log as they are. */
+interface IPaymentEventBase {
+    id: string;
+    occurredAt: Date;
+}
+
+interface IPaymentCreatedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PAYMENT_CREATED;
+    paymentReqId: string;
+    sender: string;
+    receiver: string;
+    amount: IMoneyRecord;
+    settlementCurrency: string;
+    gatewayType: GatewayKey;
+    message?: string;
+}
+
+interface IValidationPassedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.VALIDATION_PASSED;
+    paymentReqId: string;
+    gatewayType: GatewayKey; // the gateway it was routed to
+}
+
+interface IPaymentHeldForReviewEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PAYMENT_HELD_FOR_REVIEW;
+    paymentReqId: string;
+    score: number;
+    reasons: string[];
+}
+
+/** The hold is placed and the gateway is about to be charged. */
+interface IProcessingStartedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PROCESSING_STARTED;
+    paymentReqId: string;
+    gatewayType: GatewayKey;
+}
+
+interface IProcessAttemptFailedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED;
+    paymentReqId: string;
+    gatewayType: GatewayKey;
+    attempt: number;
+    error: string;
+    retryInMs: number | null; // null when the retry policy gave up
+}
+
+interface IPaymentConfirmedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED;
+    paymentReqId: string;
+    gatewayType: GatewayKey;
+    gatewayReference?: string;
+}
+
+interface IPaymentFailedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED;
+    paymentReqId: string;
+    reason: string;
+}
+
+interface IRefundIssuedEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.REFUND_ISSUED;
+    paymentReqId: string;
+    refundId: string;
+    amount: IMoneyRecord;
+}
+
+interface IScheduledBillingRunEvent extends IPaymentEventBase {
+    type: PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN;
+    jobId: string;
+    billingDate: Date;
+    outcome: BILLING_OUTCOME;
+    paymentReqId?: string;
+    error?: string;
+}
+
+type PaymentEvent =
+    | IPaymentCreatedEvent
+    | IValidationPassedEvent
+    | IPaymentHeldForReviewEvent
+    | IProcessingStartedEvent
+    | IProcessAttemptFailedEvent
+    | IPaymentConfirmedEvent
+    | IPaymentFailedEvent
+    | IRefundIssuedEvent
+    | IScheduledBillingRunEvent;
+
+/** What publishers pass in, the bus adds the id and the time. */
+type NewPaymentEvent<E = PaymentEvent> = E extends PaymentEvent ? Omit<E, "id" | "occurredAt"> : never;
+
+type PaymentEventHandler = (event: PaymentEvent) => void;
+
+/** Events are written as they are, reading one back checks the fields of its type. */
+const PAYMENT_EVENT_MAPPER: IRecordMapper<PaymentEvent> = {
+    getId: event => event.id,
+    toRecord: event => event,
+    fromRecord: (record: unknown): PaymentEvent => {
+        const reader = RecordReader.of(record, "event");
+        const base = { id: reader.string("id"), occurredAt: reader.date("occurredAt") };
+        const type = reader.oneOf("type", PAYMENT_EVENT_TYPE);
+        switch (type) {
+            case PAYMENT_EVENT_TYPE.PAYMENT_CREATED:
+                return {
+                    ...base,
+                    type,
+                    paymentReqId: reader.string("paymentReqId"),
+                    sender: reader.string("sender"),
+                    receiver: reader.string("receiver"),
+                    amount: reader.money("amount").toRecord(),
+                    settlementCurrency: reader.string("settlementCurrency"),
+                    gatewayType: reader.string("gatewayType"),
+                    message: reader.optionalString("message"),
+                };
+            case PAYMENT_EVENT_TYPE.VALIDATION_PASSED:
+            case PAYMENT_EVENT_TYPE.PROCESSING_STARTED:
+                return { ...base, type, paymentReqId: reader.string("paymentReqId"), gatewayType: reader.string("gatewayType") };
+            case PAYMENT_EVENT_TYPE.PAYMENT_HELD_FOR_REVIEW:
+                return { ...base, type, paymentReqId: reader.string("paymentReqId"), score: reader.number("score"), reasons: reader.strings("reasons") };
+            case PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED:
+                return {
+                    ...base,
+                    type,
+                    paymentReqId: reader.string("paymentReqId"),
+                    gatewayType: reader.string("gatewayType"),
+                    attempt: reader.number("attempt"),
+                    error: reader.string("error"),
+                    retryInMs: reader.has("retryInMs") ? reader.number("retryInMs") : null,
+                };
+            case PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED:
+                return {
+                    ...base,
+                    type,
+                    paymentReqId: reader.string("paymentReqId"),
+                    gatewayType: reader.string("gatewayType"),
+                    gatewayReference: reader.optionalString("gatewayReference"),
+                };
+            case PAYMENT_EVENT_TYPE.PAYMENT_FAILED:
+                return { ...base, type, paymentReqId: reader.string("paymentReqId"), reason: reader.string("reason") };
+            case PAYMENT_EVENT_TYPE.REFUND_ISSUED:
+                return { ...base, type, paymentReqId: reader.string("paymentReqId"), refundId: reader.string("refundId"), amount: reader.money("amount").toRecord() };
+            case PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN:
+                return {
+                    ...base,
+                    type,
+                    jobId: reader.string("jobId"),
+                    billingDate: reader.date("billingDate"),
+                    outcome: reader.oneOf("outcome", BILLING_OUTCOME),
+                    paymentReqId: reader.optionalString("paymentReqId"),
+                    error: reader.optionalString("error"),
+                };
+        }
+    },
+};
+
+enum LOG_LEVEL {
+    INFO = "INFO",
+    WARN = "WARN",
+    ERROR = "ERROR",
+}
+
+abstract class ILogger {
+    abstract log(level: LOG_LEVEL, message: string, fields?: object): void;
+}
+
+class ConsoleLogger extends ILogger {
+    log(level: LOG_LEVEL, message: string, fields?: object) {
+        (level === LOG_LEVEL.INFO ? console.log : console.error)(`${level} :: ${message}${fields ? ` :: ${JSON.stringify(fields)}` : ""}`);
+    }
+}
+
+/** One JSON object per line, for log shippers. */
+class JsonLineLogger extends ILogger {
+    log(level: LOG_LEVEL, message: string, fields?: object) {
+        console.log(JSON.stringify({ level, message, at: new Date().toISOString(), ...fields }));
+    }
+}
+
+/** Append only, events are never changed or removed once written. */
+abstract class IAuditLog {
+    abstract append(event: PaymentEvent): void;
+    abstract readAll(): PaymentEvent[];
+}
+
+class InMemoryAuditLog extends IAuditLog {
+    private events: PaymentEvent[] = [];
+
+    append(event: PaymentEvent) {
+        this.events.push(event);
+    }
+
+    readAll(): PaymentEvent[] {
+        return [...this.events];
+    }
+}
+
+/**
+ * JSON lines, so appending an event never rewrites what is already in the
+ * file. A line that doesn't parse into an event (cut off by a crash, edited
+ * by hand) is reported with its line number and left out of the replay.
+ */
+class FileAuditLog extends IAuditLog {
+    constructor(private filePath: string) {
+        super();
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    append(event: PaymentEvent) {
+        fs.appendFileSync(this.filePath, `${JSON.stringify(event)}\n`);
+    }
+
+    readAll(): PaymentEvent[] {
+        if (!fs.existsSync(this.filePath)) {
+            return [];
+        }
+        const events: PaymentEvent[] = [];
+        fs.readFileSync(this.filePath, "utf8").split("\n").forEach((line, index) => {
+            if (!line.trim()) {
+                return;
+            }
+            try {
+                const record: unknown = JSON.parse(line);
+                events.push(PAYMENT_EVENT_MAPPER.fromRecord(record));
+            } catch (error) {
+                EventBus.getInstance().getLogger().log(LOG_LEVEL.ERROR, `FileAuditLog :: skipped line ${index + 1} of ${this.filePath} :: ${(error as Error).message}`);
+            }
+        });
+        return events;
+    }
+}
+
+/**
+ * Every event is written to the audit log first and then handed to the
+ * subscribers. A subscriber that throws is logged and skipped, it never
+ * breaks the payment that published the event.
+ */
+class EventBus {
+    private static instance: EventBus;
+    private subscribers: Map<PAYMENT_EVENT_TYPE | "*", PaymentEventHandler[]> = new Map();
+    private auditLog: IAuditLog = new InMemoryAuditLog();
+    private logger: ILogger = new ConsoleLogger();
+
+    static getInstance(): EventBus {
+        if (!EventBus.instance) {
+            EventBus.instance = new EventBus();
+        }
+        return EventBus.instance;
+    }
+
+    useAuditLog(auditLog: IAuditLog) {
+        this.auditLog = auditLog;
+    }
+
+    useLogger(logger: ILogger) {
+        this.logger = logger;
+    }
+
+    getAuditLog(): IAuditLog {
+        return this.auditLog;
+    }
+
+    /** The payment pipeline logs through the same logger as the events, so useLogger switches both. */
+    getLogger(): ILogger {
+        return this.logger;
+    }
+
+    /** "*" receives every event. Returns a function that unsubscribes again. */
+    subscribe(type: PAYMENT_EVENT_TYPE | "*", handler: PaymentEventHandler): () => void {
+        this.subscribers.set(type, [...(this.subscribers.get(type) ?? []), handler]);
+        return () => this.subscribers.set(type, (this.subscribers.get(type) ?? []).filter(existing => existing !== handler));
+    }
+
+    publish(newEvent: NewPaymentEvent): PaymentEvent {
+        const event = { ...newEvent, id: IDGenerator.generate(), occurredAt: new Date() } as PaymentEvent;
+        this.auditLog.append(event);
+        const failed = event.type === PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED || event.type === PAYMENT_EVENT_TYPE.PAYMENT_FAILED;
+        const subject = "paymentReqId" in event && event.paymentReqId ? event.paymentReqId : "jobId" in event ? event.jobId : "";
+        this.logger.log(failed ? LOG_LEVEL.WARN : LOG_LEVEL.INFO, `${event.type} :: ${subject}`, event);
+        [...(this.subscribers.get(event.type) ?? []), ...(this.subscribers.get("*") ?? [])].forEach(handler => {
+            try {
+                handler(event);
+            } catch (error) {
+                this.logger.log(LOG_LEVEL.ERROR, `EventBus :: subscriber failed on ${event.type} :: ${(error as Error).message}`);
+            }
+        });
+        return event;
+    }
+}
+
+/** State of a payment as far as the events tell, rebuilt by AuditLogReplayer. */
+interface IPaymentProjection {
+    paymentReqId: string;
+    sender: string;
+    receiver: string;
+    amount: Money;
+    gatewayType: GatewayKey;
+    processingGatewayType: GatewayKey;
+    status: PAYMENT_STATUS;
+    refundedAmount: Money;
+    gatewayReference?: string;
+    failedAttempts: number;
+    failureReason?: string;
+    lastEventAt: Date;
+}
+
+class AuditLogReplayer {
+    /**
+     * Folds the events in order into one projection per payment. With until
+     * the state is rebuilt as it was at that moment. Events of payments
+     * created before the log started are skipped, there is nothing to apply
+     * them to.
+     */
+    static rebuild(events: PaymentEvent[], until?: Date): Map<string, IPaymentProjection> {
+        const payments: Map<string, IPaymentProjection> = new Map();
+        for (const event of events) {
+            if (until && event.occurredAt > until) {
+                break;
+            }
+            if (event.type === PAYMENT_EVENT_TYPE.PAYMENT_CREATED) {
+                const amount = Money.fromRecord(event.amount);
+                payments.set(event.paymentReqId, {
+                    paymentReqId: event.paymentReqId,
+                    sender: event.sender,
+                    receiver: event.receiver,
+                    amount,
+                    gatewayType: event.gatewayType,
+                    processingGatewayType: event.gatewayType,
+                    status: PAYMENT_STATUS.CREATED,
+                    refundedAmount: Money.zero(amount.getCurrency()),
+                    failedAttempts: 0,
+                    lastEventAt: event.occurredAt,
+                });
+                continue;
+            }
+            const payment = "paymentReqId" in event && event.paymentReqId ? payments.get(event.paymentReqId) : undefined;
+            if (!payment) {
+                continue;
+            }
+            payment.lastEventAt = event.occurredAt;
+            switch (event.type) {
+                case PAYMENT_EVENT_TYPE.VALIDATION_PASSED:
+                    payment.status = PAYMENT_STATUS.VALIDATED;
+                    payment.processingGatewayType = event.gatewayType;
+                    break;
+                case PAYMENT_EVENT_TYPE.PAYMENT_HELD_FOR_REVIEW:
+                    payment.status = PAYMENT_STATUS.IN_REVIEW;
+                    break;
+                case PAYMENT_EVENT_TYPE.PROCESSING_STARTED:
+                    payment.status = PAYMENT_STATUS.PROCESSING;
+                    payment.processingGatewayType = event.gatewayType;
+                    break;
+                case PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED:
+                    payment.status = PAYMENT_STATUS.PROCESSING;
+                    payment.failedAttempts++;
+                    break;
+                case PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED:
+                    payment.status = PAYMENT_STATUS.CONFIRMED;
+                    payment.gatewayReference = event.gatewayReference;
+                    break;
+                case PAYMENT_EVENT_TYPE.PAYMENT_FAILED:
+                    payment.status = PAYMENT_STATUS.FAILED;
+                    payment.failureReason = event.reason;
+                    break;
+                case PAYMENT_EVENT_TYPE.REFUND_ISSUED:
+                    payment.refundedAmount = payment.refundedAmount.add(Money.fromRecord(event.amount));
+                    payment.status = payment.refundedAmount.equals(payment.amount) ? PAYMENT_STATUS.REFUNDED : PAYMENT_STATUS.PARTIALLY_REFUNDED;
+                    break;
+            }
+        }
+        return payments;
+    }
+}
+
+enum IDEMPOTENCY_STATUS {
+    IN_PROGRESS = "IN_PROGRESS", // claimed before the gateway is called, no response yet
+    COMPLETED = "COMPLETED",
+}
+
+interface IIdempotencyRecord {
+    key: string;
+    paymentReqId: string;
+    status: IDEMPOTENCY_STATUS;
+    response?: IResponse; // set once COMPLETED
+    expiresAt: Date;
+}
+
+const IDEMPOTENCY_RECORD_MAPPER: IRecordMapper<IIdempotencyRecord> = {
+    getId: record => record.key,
+    toRecord: record => ({ ...record }),
+    fromRecord: record => {
+        const reader = RecordReader.of(record, "idempotencyRecord");
+        const response = reader.optionalObject("response");
+        return {
+            key: reader.string("key"),
+            paymentReqId: reader.string("paymentReqId"),
+            status: reader.oneOf("status", IDEMPOTENCY_STATUS),
+            response: response && { data: response.plainObject("data"), statusCode: response.number("statusCode") },
+            expiresAt: reader.date("expiresAt"),
+        };
+    },
+};
+
+/** A second call with a key whose first call hasn't finished yet. */
+class IdempotencyConflictError extends Error {
+    constructor(idempotencyKey: string) {
+        super(`A request with idempotency key ${idempotencyKey} is still in progress`);
+        this.name = "IdempotencyConflictError";
+    }
+}
+
+class PaymentReqController {
+    private static instance: PaymentReqController
+    private PaymentReqs: IRepository<PaymentReq> = new InMemoryRepository(PAYMENT_REQ_MAPPER.getId);
+    private refunds: IRepository<RefundReq> = new InMemoryRepository(REFUND_REQ_MAPPER.getId);
+    private idempotencyRecords: IRepository<IIdempotencyRecord> = new InMemoryRepository(IDEMPOTENCY_RECORD_MAPPER.getId);
+    private idempotencyKeyTTLInSeconds: number = 24 * 60 * 60;
+    private clock: IClock = new SystemClock();
+
+    static getInstance(): PaymentReqController {
+        if (!PaymentReqController.instance) {
+            PaymentReqController.instance = new PaymentReqController();
+        }
+        return PaymentReqController.instance;
+    }
+
+    /**
+     * Meant to be called once at startup, e.g. with FileRepository so payments
+     * survive restarts. The idempotency records go with them, a retry sent
+     * after a restart must still find its key or it charges a second time.
+     */
+    useRepositories(paymentReqs: IRepository<PaymentReq>, refunds: IRepository<RefundReq>, idempotencyRecords: IRepository<IIdempotencyRecord>) {
+        this.PaymentReqs = paymentReqs;
+        this.refunds = refunds;
+        this.idempotencyRecords = idempotencyRecords;
+    }
+
+    /** Stamps createdAt, the risk rules count payments by it so give RiskEngine.configure the same clock. */
+    useClock(clock: IClock) {
+        this.clock = clock;
+    }
+
+    create(
+        sender: PaymentUser,
+        receiver: PaymentUser,
+        amount: Money,
+        gatewayType: GatewayKey,
+        message?: string,
+        settlementCurrency?: string
+    ) {
+        if (!amount.isPositive()) {
+            throw new Error(`Payment amount must be positive, got ${amount}`);
+        }
+        const newPaymentReq = new PaymentReq(
+            sender,
+            receiver,
+            amount,
+            gatewayType,
+            message,
+            settlementCurrency,
+            this.clock.now()
+        );
+
+        this.PaymentReqs.save(newPaymentReq);
+        EventBus.getInstance().publish({
+            type: PAYMENT_EVENT_TYPE.PAYMENT_CREATED,
+            paymentReqId: newPaymentReq.getDetails.id,
+            sender: sender.getDetails().username,
+            receiver: receiver.getDetails().username,
+            amount: amount.toRecord(),
+            settlementCurrency: newPaymentReq.getDetails.settlementCurrency,
+            gatewayType,
+            message,
+        });
+
+        return newPaymentReq;
+    }
+
+    /** Persists the changes the payment pipeline made to a request. */
+    save(paymentReq: PaymentReq) {
+        this.PaymentReqs.save(paymentReq);
+    }
+
+    saveRefund(refundReq: RefundReq) {
+        this.refunds.save(refundReq);
+    }
+
+    list(): PaymentReq[] {
+        return this.PaymentReqs.findAll();
+    }
+
+    get(id: string): PaymentReq | undefined {
+        return this.PaymentReqs.findById(id);
+    }
+
+    listByStatus(status: PAYMENT_STATUS): PaymentReq[] {
+        return this.query({ status });
+    }
+
+    query(query: IPaymentReqQuery): PaymentReq[] {
+        return this.PaymentReqs.find(paymentReq => {
+            const { sender, receiver, status, createdAt } = paymentReq.getDetails;
+            if (query.userId && sender.getDetails().username !== query.userId && receiver.getDetails().username !== query.userId) {
+                return false;
+            }
+            if (query.status && status !== query.status) {
+                return false;
+            }
+            if (query.from && createdAt < query.from) {
+                return false;
+            }
+            if (query.to && createdAt > query.to) {
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Refunds that are still PENDING are counted as well, otherwise two partial
+     * refunds issued back to back could together go over the captured amount.
+     * So are the ones waiting for reconciliation, the gateway paid those out
+     * and until someone reconciled them we'd rather refuse a refund too many.
+     */
+    createRefund(paymentReq: PaymentReq, amount: Money, reason?: string): RefundReq {
+        const paymentReqId = paymentReq.getDetails.id;
+        if (!paymentReq.isRefundable()) {
+            throw new Error(`Payment ${paymentReqId} is ${paymentReq.getStatus()} and can't be refunded`);
+        }
+        if (!amount.isPositive()) {
+            throw new Error(`Refund amount must be positive, got ${amount}`);
+        }
+        const refundable = paymentReq.getRefundableAmount();
+        const pendingAmount = this.listRefunds(paymentReqId)
+            .filter(refund => refund.getDetails.status === REFUND_STATUS.PENDING || refund.getDetails.status === REFUND_STATUS.NEEDS_RECONCILIATION)
+            .reduce((sum, refund) => sum.add(refund.getDetails.amount), Money.zero(refundable.getCurrency()));
+        const available = refundable.subtract(pendingAmount);
+        if (amount.greaterThan(available)) {
+            throw new Error(`Refund of ${amount} exceeds refundable amount ${available} for ${paymentReqId}`);
+        }
+
+        const refundReq = new RefundReq(paymentReqId, amount, reason);
+        this.refunds.save(refundReq);
+        return refundReq;
+    }
+
+    listRefunds(paymentReqId: string): RefundReq[] {
+        return this.refunds.find(refundReq => refundReq.getDetails.paymentReqId === paymentReqId);
+    }
+
+    setIdempotencyKeyTTL(ttlInSeconds: number) {
+        this.idempotencyKeyTTLInSeconds = ttlInSeconds;
+    }
+
+    /**
+     * Returns the response stored for a key that is still inside its expiry
+     * window, or claims the key as IN_PROGRESS and returns undefined. The
+     * claim happens before the caller awaits anything, so a concurrent
+     * duplicate finds it and gets an IdempotencyConflictError instead of
+     * running the gateway a second time. A key can only ever belong to one
+     * payment request, reusing it for another one is a client bug so we throw
+     * instead of replaying. Records past their expiry are evicted here.
+     */
+    beginIdempotentRequest(idempotencyKey: string, paymentReq: PaymentReq): IResponse | undefined {
+        this.evictExpiredIdempotencyRecords(new Date());
+        const record = this.idempotencyRecords.findById(idempotencyKey);
+        if (record) {
+            if (record.paymentReqId !== paymentReq.getDetails.id) {
+                throw new Error(`Idempotency key ${idempotencyKey} is already used by payment ${record.paymentReqId}`);
+            }
+            if (record.status === IDEMPOTENCY_STATUS.IN_PROGRESS) {
+                throw new IdempotencyConflictError(idempotencyKey);
+            }
+            return record.response;
+        }
+        this.idempotencyRecords.save({
+            key: idempotencyKey,
+            paymentReqId: paymentReq.getDetails.id,
+            status: IDEMPOTENCY_STATUS.IN_PROGRESS,
+            expiresAt: new Date(Date.now() + this.idempotencyKeyTTLInSeconds * 1000),
+        });
+        return undefined;
+    }
+
+    saveIdempotentResponse(idempotencyKey: string, paymentReq: PaymentReq, response: IResponse) {
+        paymentReq.setIdempotencyKey(idempotencyKey);
+        this.idempotencyRecords.save({
+            key: idempotencyKey,
+            paymentReqId: paymentReq.getDetails.id,
+            status: IDEMPOTENCY_STATUS.COMPLETED,
+            response,
+            expiresAt: new Date(Date.now() + this.idempotencyKeyTTLInSeconds * 1000),
+        });
+    }
+
+    /** Drops the claim of a failed attempt so the client can retry with the same key. */
+    releaseIdempotencyKey(idempotencyKey: string) {
+        const record = this.idempotencyRecords.findById(idempotencyKey);
+        if (record && record.status === IDEMPOTENCY_STATUS.IN_PROGRESS) {
+            this.idempotencyRecords.delete(idempotencyKey);
+        }
+    }
+
+    private evictExpiredIdempotencyRecords(now: Date) {
+        this.idempotencyRecords.find(record => record.expiresAt <= now).forEach(record => this.idempotencyRecords.delete(record.key));
+    }
+}
+
+enum ENTRY_TYPE {
+    DEBIT = "DEBIT",
+    CREDIT = "CREDIT",
+}
+
+/** Money entering or leaving the system (top ups, withdrawals) is booked against this account. */
+const FUNDING_ACCOUNT = "system:funding";
+/** Cross currency payments go through the FX account of each currency so every currency stays balanced on its own. */
+const FX_ACCOUNT = "system:fx";
+
+interface ILedgerEntry {
+    id: string;
+    transactionId: string;
+    account: string;
+    type: ENTRY_TYPE;
+    amount: Money;
+    description: string;
+    createdAt: Date;
+}
+
+interface ITrialBalance {
+    debits: Record<string, Money>; // per currency
+    credits: Record<string, Money>;
+    balances: Record<string, Money>; // per account
+    isBalanced: boolean;
+}
+
+class InsufficientFundsError extends Error {
+    constructor(userId: string, amount: Money, available: Money) {
+        super(`Insufficient funds for ${userId}: needs ${amount}, available ${available}`);
+        this.name = "InsufficientFundsError";
+    }
+}
+
+class Wallet {
+    private holds: Map<string, Money> = new Map();
+    constructor(private userId: string, private currency: string) {}
+
+    getAccount(): string {
+        return `wallet:${this.userId}:${this.currency}`;
+    }
+
+    placeHold(holdId: string, amount: Money) {
+        this.holds.set(holdId, amount);
+    }
+
+    releaseHold(holdId: string): Money {
+        const amount = this.holds.get(holdId) || Money.zero(this.currency);
+        this.holds.delete(holdId);
+        return amount;
+    }
+
+    getHeldAmount(): Money {
+        return Array.from(this.holds.values()).reduce((sum, amount) => sum.add(amount), Money.zero(this.currency));
+    }
+
+    getDetails() {
+        return {
+            userId: this.userId,
+            currency: this.currency,
+            account: this.getAccount(),
+            heldAmount: this.getHeldAmount(),
+        };
+    }
+}
+
+/**
+ * Double-entry ledger. Balances are never stored, they are always derived
+ * from the entries, and every movement writes one debit and one credit of
+ * the same amount so the whole ledger always sums to zero per currency.
+ *
+ * Wallets are liabilities of the service: a credit increases what we owe the
+ * user, a debit decreases it. A user has one wallet per currency.
+ */
+class Ledger {
+    private static instance: Ledger;
+    private wallets: Map<string, Wallet> = new Map();
+    private entries: ILedgerEntry[] = [];
+
+    static getInstance(): Ledger {
+        if (!Ledger.instance) {
+            Ledger.instance = new Ledger();
+        }
+        return Ledger.instance;
+    }
+
+    getWallet(userId: string, currency: string): Wallet {
+        const key = `${userId}:${currency}`;
+        if (!this.wallets.has(key)) {
+            this.wallets.set(key, new Wallet(userId, currency));
+        }
+        return this.wallets.get(key)!;
+    }
+
+    deposit(userId: string, amount: Money) {
+        const account = this.getWallet(userId, amount.getCurrency()).getAccount();
+        this.transfer(IDGenerator.generate(), `${FUNDING_ACCOUNT}:${amount.getCurrency()}`, account, amount, "Deposit");
+    }
+
+    getBalance(userId: string, currency: string): Money {
+        return this.getAccountBalance(this.getWallet(userId, currency).getAccount(), currency);
+    }
+
+    getAvailableBalance(userId: string, currency: string): Money {
+        return this.getBalance(userId, currency).subtract(this.getWallet(userId, currency).getHeldAmount());
+    }
+
+    assertAvailable(userId: string, amount: Money) {
+        const available = this.getAvailableBalance(userId, amount.getCurrency());
+        if (amount.greaterThan(available)) {
+            throw new InsufficientFundsError(userId, amount, available);
+        }
+    }
+
+    /** Reserves the sender's money while the gateway works on the payment. */
+    placeHold(paymentReq: PaymentReq) {
+        const { id, sender, amount } = paymentReq.getDetails;
+        const userId = sender.getDetails().username;
+        this.assertAvailable(userId, amount);
+        this.getWallet(userId, amount.getCurrency()).placeHold(id, amount);
+    }
+
+    releaseHold(paymentReq: PaymentReq) {
+        const { id, sender, amount } = paymentReq.getDetails;
+        this.getWallet(sender.getDetails().username, amount.getCurrency()).releaseHold(id);
+    }
+
+    /** Turns the hold of a confirmed payment into sender -> receiver entries. */
+    capture(paymentReq: PaymentReq) {
+        const { id, sender, receiver, amount } = paymentReq.getDetails;
+        const settlementAmount = paymentReq.getSettlementAmount();
+        const senderWallet = this.getWallet(sender.getDetails().username, amount.getCurrency());
+        const receiverWallet = this.getWallet(receiver.getDetails().username, settlementAmount.getCurrency());
+        senderWallet.releaseHold(id);
+        this.move(id, senderWallet.getAccount(), amount, receiverWallet.getAccount(), settlementAmount, `Payment ${id}`);
+    }
+
+    /** Moves a refunded amount back from the receiver to the sender, at the rate the payment was made with. */
+    reverse(paymentReq: PaymentReq, amount: Money, refundId: string) {
+        const { id, sender, receiver } = paymentReq.getDetails;
+        const settlementShare = paymentReq.getSettlementShare(amount);
+        const senderWallet = this.getWallet(sender.getDetails().username, amount.getCurrency());
+        const receiverWallet = this.getWallet(receiver.getDetails().username, settlementShare.getCurrency());
+        this.move(id, receiverWallet.getAccount(), settlementShare, senderWallet.getAccount(), amount, `Refund ${refundId}`);
+    }
+
+    listEntries(transactionId?: string): ILedgerEntry[] {
+        return transactionId
+            ? this.entries.filter(entry => entry.transactionId === transactionId)
+            : [...this.entries];
+    }
+
+    getTrialBalance(): ITrialBalance {
+        const debits: Record<string, Money> = {};
+        const credits: Record<string, Money> = {};
+        const balances: Record<string, Money> = {};
+        this.entries.forEach(entry => {
+            const currency = entry.amount.getCurrency();
+            const totals = entry.type === ENTRY_TYPE.DEBIT ? debits : credits;
+            totals[currency] = (totals[currency] || Money.zero(currency)).add(entry.amount);
+            balances[entry.account] = this.getAccountBalance(entry.account, currency);
+        });
+        const isBalanced = Object.keys({ ...debits, ...credits }).every(currency =>
+            (debits[currency] || Money.zero(currency)).equals(credits[currency] || Money.zero(currency))
+        );
+        return { debits, credits, balances, isBalanced };
+    }
+
+    private getAccountBalance(account: string, currency: string): Money {
+        return this.entries
+            .filter(entry => entry.account === account)
+            .reduce(
+                (sum, entry) => entry.type === ENTRY_TYPE.CREDIT ? sum.add(entry.amount) : sum.subtract(entry.amount),
+                Money.zero(currency)
+            );
+    }
+
+    /** from and to can be in different currencies, the difference is carried by the FX accounts. */
+    private move(transactionId: string, fromAccount: string, fromAmount: Money, toAccount: string, toAmount: Money, description: string) {
+        if (fromAmount.getCurrency() === toAmount.getCurrency()) {
+            this.transfer(transactionId, fromAccount, toAccount, fromAmount, description);
+            return;
+        }
+        this.transfer(transactionId, fromAccount, `${FX_ACCOUNT}:${fromAmount.getCurrency()}`, fromAmount, description);
+        this.transfer(transactionId, `${FX_ACCOUNT}:${toAmount.getCurrency()}`, toAccount, toAmount, description);
+    }
+
+    private transfer(transactionId: string, fromAccount: string, toAccount: string, amount: Money, description: string) {
+        if (!amount.isPositive()) {
+            throw new Error(`Ledger amount must be positive, got ${amount}`);
+        }
+        const createdAt = new Date();
+        this.entries.push(
+            { id: IDGenerator.generate(), transactionId, account: fromAccount, type: ENTRY_TYPE.DEBIT, amount, description, createdAt },
+            { id: IDGenerator.generate(), transactionId, account: toAccount, type: ENTRY_TYPE.CREDIT, amount, description, createdAt },
+        );
+    }
+}
+
+interface IResponse {
+    data: object
+    statusCode: number
+}
+
+/** Returned by confirm when the gateway reports the outcome later through a webhook, see WebhookController. */
+const PENDING_CONFIRMATION_STATUS_CODE = 202;
+
+/** Time source of the payment pipeline, swap it with ManualClock to run retries without real waits. */
+interface IClock {
+    now(): Date;
+    sleep(ms: number): Promise<void>;
+}
+
+class SystemClock implements IClock {
+    now(): Date {
+        return new Date();
+    }
+
+    sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+class ManualClock implements IClock {
+    private sleeps: number[] = [];
+    constructor(private current: Date = new Date()) {}
+
+    now(): Date {
+        return new Date(this.current.getTime());
+    }
+
+    sleep(ms: number): Promise<void> {
+        this.sleeps.push(ms);
+        this.advance(ms);
+        return Promise.resolve();
+    }
+
+    advance(ms: number) {
+        this.current = new Date(this.current.getTime() + ms);
+    }
+
+    getSleeps(): number[] {
+        return [...this.sleeps];
+    }
+}
+
+/** Thrown by gateways for failures worth retrying (timeouts, 5xx). Anything else is treated as permanent. */
+class TransientGatewayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TransientGatewayError";
+    }
+}
+
+interface IRetryContext {
+    attempt: number; // attempts already made, starts at 1
+    error: Error;
+    elapsedMs: number;
+}
+
+/**
+ * Decides how long to wait before the next attempt, or null to give up and
+ * rethrow. MaxElapsedTimeRetryPolicy and TransientErrorRetryPolicy wrap
+ * another policy so they can be combined with fixed or exponential delays.
+ */
+abstract class IRetryPolicy {
+    abstract nextDelayInMs(context: IRetryContext): number | null;
+}
+
+class NoRetryPolicy extends IRetryPolicy {
+    nextDelayInMs(): number | null {
+        return null;
+    }
+}
+
+class FixedRetryPolicy extends IRetryPolicy {
+    constructor(private maxAttempts: number, private delayInMs: number = 0) {
+        super();
+    }
+
+    nextDelayInMs(context: IRetryContext): number | null {
+        return context.attempt < this.maxAttempts ? this.delayInMs : null;
+    }
+}
+
+class ExponentialBackoffRetryPolicy extends IRetryPolicy {
+    constructor(
+        private maxAttempts: number,
+        private baseDelayInMs: number,
+        private maxDelayInMs: number = Number.MAX_SAFE_INTEGER,
+        private random: () => number = Math.random // "full jitter", pass () => 1 to disable it
+    ) {
+        super();
+    }
+
+    nextDelayInMs(context: IRetryContext): number | null {
+        if (context.attempt >= this.maxAttempts) {
+            return null;
+        }
+        const delay = Math.min(this.maxDelayInMs, this.baseDelayInMs * Math.pow(2, context.attempt - 1));
+        return Math.floor(delay * this.random());
+    }
+}
+
+class MaxElapsedTimeRetryPolicy extends IRetryPolicy {
+    constructor(private policy: IRetryPolicy, private maxElapsedInMs: number) {
+        super();
+    }
+
+    nextDelayInMs(context: IRetryContext): number | null {
+        const delay = this.policy.nextDelayInMs(context);
+        if (delay === null || context.elapsedMs + delay > this.maxElapsedInMs) {
+            return null;
+        }
+        return delay;
+    }
+}
+
+class TransientErrorRetryPolicy extends IRetryPolicy {
+    constructor(
+        private policy: IRetryPolicy,
+        private isTransient: (error: Error) => boolean = error => error instanceof TransientGatewayError
+    ) {
+        super();
+    }
+
+    nextDelayInMs(context: IRetryContext): number | null {
+        return this.isTransient(context.error) ? this.policy.nextDelayInMs(context) : null;
+    }
+}
+
+abstract class IPaymentGateway {
+    abstract validate(paymentReq: PaymentReq): Promise<boolean>;
+    abstract process(paymentReq: PaymentReq): Promise<void>;
+    abstract confirm(paymentReq: PaymentReq): Promise<IResponse>;
+    abstract refund(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse>;
+
+    /**
+     * Template method. Every step moves the payment one state forward so that
+     * a reconciliation job can always tell where a payment stopped. A payment
+     * that isn't processable is turned away untouched, and on errors we only
+     * fail the payment while it is still in the state this call left it in,
+     * a concurrent call that moved it on meanwhile owns it from then on.
+     */
+    async processPayment(paymentReq: PaymentReq): Promise<IResponse> {
+        if (!paymentReq.isProcessable()) {
+            throw new Error(`Payment ${paymentReq.getDetails.id} is ${paymentReq.getStatus()} and can't be processed`);
+        }
+        let ownStatus = paymentReq.getStatus();
+        const moveTo = (status: PAYMENT_STATUS) => {
+            paymentReq.transitionTo(status);
+            ownStatus = status;
+        };
+        try {
+            if (!(await this.validate(paymentReq))) {
+                throw new Error(`Validation failed for ${paymentReq.getDetails.id}`);
+            }
+            moveTo(PAYMENT_STATUS.VALIDATED);
+            const paymentReqId = paymentReq.getDetails.id;
+            const gatewayType = paymentReq.getProcessingGatewayType();
+            EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.VALIDATION_PASSED, paymentReqId, gatewayType });
+            if (paymentReq.needsFx()) {
+                const { amount, settlementCurrency } = paymentReq.getDetails;
+                paymentReq.applyFx(FxService.getInstance().convert(amount, settlementCurrency));
+            }
+            Ledger.getInstance().placeHold(paymentReq);
+
+            moveTo(PAYMENT_STATUS.PROCESSING);
+            EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PROCESSING_STARTED, paymentReqId, gatewayType });
+            await this.process(paymentReq);
+
+            const response = await this.confirm(paymentReq);
+            if (response.statusCode === PENDING_CONFIRMATION_STATUS_CODE) {
+                // stays PROCESSING with the hold in place until the callback arrives
+                return response;
+            }
+            moveTo(PAYMENT_STATUS.CONFIRMED);
+            Ledger.getInstance().capture(paymentReq);
+            const { gatewayReference } = paymentReq.getDetails;
+            EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED, paymentReqId, gatewayType, gatewayReference });
+            return response;
+        } catch (error) {
+            if (paymentReq.getStatus() === ownStatus && paymentReq.canTransitionTo(PAYMENT_STATUS.FAILED)) {
+                Ledger.getInstance().releaseHold(paymentReq);
+                paymentReq.transitionTo(PAYMENT_STATUS.FAILED, (error as Error).message);
+                const paymentReqId = paymentReq.getDetails.id;
+                EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId, reason: (error as Error).message });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Only a refund the gateway turned down is FAILED. Once the gateway paid
+     * it out, a failure in our own bookkeeping leaves it NEEDS_RECONCILIATION
+     * so nobody retries it and pays the customer twice.
+     */
+    async refundPayment(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse> {
+        let response: IResponse;
+        try {
+            response = await this.refund(paymentReq, refundReq);
+        } catch (error) {
+            refundReq.markFailed((error as Error).message);
+            throw error;
+        }
+        const { id: refundId, amount } = refundReq.getDetails;
+        try {
+            paymentReq.applyRefund(amount, refundId);
+            Ledger.getInstance().reverse(paymentReq, amount, refundId);
+            EventBus.getInstance().publish({
+                type: PAYMENT_EVENT_TYPE.REFUND_ISSUED,
+                paymentReqId: paymentReq.getDetails.id,
+                refundId,
+                amount: amount.toRecord(),
+            });
+        } catch (error) {
+            refundReq.markNeedsReconciliation((error as Error).message);
+            throw new Error(`Refund ${refundId} was issued by the gateway but not booked, it needs reconciliation: ${(error as Error).message}`);
+        }
+        refundReq.markSucceeded();
+        return response;
+    }
+}
+
+interface IGatewayCapabilities {
+    refunds: boolean;
+    currencies: string[];
+    maxAmount: Money;
+}
+
+type GatewayConfig = Record<string, string>;
+
+interface IGatewayRegistration {
+    key: GatewayKey;
+    capabilities: IGatewayCapabilities;
+    config: GatewayConfig;
+    create: (config: GatewayConfig) => IPaymentGateway;
+}
+
+/** What a payment needs from a gateway, every field left out matches any gateway. */
+interface IGatewayRequirements {
+    amount?: Money;
+    currency?: string;
+    refunds?: boolean;
+}
+
+/**
+ * Gateways register themselves here (see below each gateway class), so a new
+ * provider is one class plus one register call instead of an enum entry and a
+ * switch case in PaymentGatewayFactory.
+ */
+class PaymentGatewayRegistry {
+    private static instance: PaymentGatewayRegistry;
+    private registrations: Map<GatewayKey, IGatewayRegistration> = new Map();
+
+    static getInstance(): PaymentGatewayRegistry {
+        if (!PaymentGatewayRegistry.instance) {
+            PaymentGatewayRegistry.instance = new PaymentGatewayRegistry();
+        }
+        return PaymentGatewayRegistry.instance;
+    }
+
+    register(registration: IGatewayRegistration) {
+        if (this.registrations.has(registration.key)) {
+            throw new Error(`Gateway ${registration.key} is already registered`);
+        }
+        this.registrations.set(registration.key, registration);
+    }
+
+    unregister(key: GatewayKey) {
+        this.registrations.delete(key);
+    }
+
+    get(key: GatewayKey): IGatewayRegistration {
+        const registration = this.registrations.get(key);
+        if (!registration) {
+            throw new Error(`Invalid gateway type ${key}`);
+        }
+        return registration;
+    }
+
+    /** Merged into the registered config, gateways created from now on get the new values. */
+    configure(key: GatewayKey, config: GatewayConfig) {
+        const registration = this.get(key);
+        registration.config = { ...registration.config, ...config };
+    }
+
+    list(): IGatewayRegistration[] {
+        return Array.from(this.registrations.values());
+    }
+
+    keys(): GatewayKey[] {
+        return Array.from(this.registrations.keys());
+    }
+
+    create(key: GatewayKey): IPaymentGateway {
+        const registration = this.get(key);
+        return registration.create(registration.config);
+    }
+
+    supports(key: GatewayKey, requirements: IGatewayRequirements): boolean {
+        const { capabilities } = this.get(key);
+        if (requirements.refunds && !capabilities.refunds) {
+            return false;
+        }
+        if (requirements.currency && !capabilities.currencies.includes(requirements.currency)) {
+            return false;
+        }
+        if (requirements.amount) {
+            if (!capabilities.currencies.includes(requirements.amount.getCurrency())) {
+                return false;
+            }
+            // without a rate the cap can't be checked, so the gateway doesn't qualify
+            const maxCurrency = capabilities.maxAmount.getCurrency();
+            const fx = FxService.getInstance();
+            if (!fx.hasRate(requirements.amount.getCurrency(), maxCurrency)) {
+                return false;
+            }
+            const amount = fx.convert(requirements.amount, maxCurrency).to;
+            if (amount.greaterThan(capabilities.maxAmount)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /** Matching gateways in registration order. */
+    findByCapabilities(requirements: IGatewayRequirements): IGatewayRegistration[] {
+        return this.list().filter(registration => this.supports(registration.key, requirements));
+    }
+}
+
+class PaytmGateway extends IPaymentGateway {
+    constructor(private config: GatewayConfig = {}) {
+        super();
+    }
+
+    async validate(paymentReq: PaymentReq) {
+        console.log(`PAYTM gateway :: validation :: ${paymentReq.getDetails.id}`)
+        return true
+    }
+
+    async process(paymentReq: PaymentReq) {
+        console.log(`PAYTM gateway :: process :: ${paymentReq.getDetails.id}`)
+        paymentReq.setGatewayReference(`paytm_${IDGenerator.generate()}`)
+    }
+
+    /** With confirmation set to "webhook" the outcome arrives later, like it does with the real Paytm API. */
+    async confirm(paymentReq: PaymentReq): Promise<IResponse> {
+        console.log(`PAYTM gateway :: confirm :: ${paymentReq.getDetails.id}`)
+        if (this.config.confirmation === "webhook") {
+            return { data: { gatewayReference: paymentReq.getDetails.gatewayReference }, statusCode: PENDING_CONFIRMATION_STATUS_CODE }
+        }
+        return { data: {}, statusCode: 200 }
+    }
+
+    async refund(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse> {
+        console.log(`PAYTM gateway :: refund :: ${paymentReq.getDetails.id} :: ${refundReq.getDetails.amount}`)
+        return { data: { refundId: refundReq.getDetails.id }, statusCode: 200 }
+    }
+}
+
+PaymentGatewayRegistry.getInstance().register({
+    key: GATEWAY_TYPE.PAYTM,
+    capabilities: { refunds: true, currencies: ["INR"], maxAmount: Money.of(100000, "INR") },
+    config: { merchantId: "paytm-merchant", webhookSecret: "paytm-webhook-secret" },
+    create: config => new PaytmGateway(config),
+});
+
+class GPayGateway extends IPaymentGateway {
+    constructor(private config: GatewayConfig = {}) {
+        super();
+    }
+
+    async validate(paymentReq: PaymentReq) {
+        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
+        return true
+    }
+
+    async process(paymentReq: PaymentReq) {
+        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
+        paymentReq.setGatewayReference(`gpay_${IDGenerator.generate()}`)
+    }
+
+    /** Same switch as PaytmGateway.confirm. */
+    async confirm(paymentReq: PaymentReq): Promise<IResponse> {
+        console.log(`GPAY gateway :: confirm :: ${paymentReq.getDetails.id}`)
+        if (this.config.confirmation === "webhook") {
+            return { data: { gatewayReference: paymentReq.getDetails.gatewayReference }, statusCode: PENDING_CONFIRMATION_STATUS_CODE }
+        }
+        return { data: {}, statusCode: 200 }
+    }
+
+    async refund(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse> {
+        console.log(`GPAY gateway :: refund :: ${paymentReq.getDetails.id} :: ${refundReq.getDetails.amount}`)
+        return { data: { refundId: refundReq.getDetails.id }, statusCode: 200 }
+    }
+}
+
+PaymentGatewayRegistry.getInstance().register({
+    key: GATEWAY_TYPE.GPAY,
+    capabilities: { refunds: true, currencies: ["INR", "USD"], maxAmount: Money.of(200000, "INR") },
+    config: { merchantId: "gpay-merchant", webhookSecret: "gpay-webhook-secret" },
+    create: config => new GPayGateway(config),
+});
+
+class PaymentGatewayFactory {
+    static createGateway(gatewayType: GatewayKey): IPaymentGateway {
+        return PaymentGatewayRegistry.getInstance().create(gatewayType);
+    }
+}
+
+enum CIRCUIT_STATE {
+    CLOSED = "CLOSED",
+    OPEN = "OPEN",
+    HALF_OPEN = "HALF_OPEN",
+}
+
+interface ICircuitBreakerOptions {
+    failureRateThreshold: number; // 0..1, share of failed calls in the window that opens the circuit
+    minimumCalls: number; // don't judge a gateway on one or two calls
+    windowSize: number; // number of most recent calls the failure rate is computed on
+    cooldownInMs: number; // how long the circuit stays OPEN before a HALF_OPEN trial call
+}
+
+interface ICircuitBreakerState {
+    gatewayType: GatewayKey;
+    state: CIRCUIT_STATE;
+    failureRate: number;
+    calls: number;
+    openedAt?: Date;
+    lastError?: string;
+}
+
+class CircuitOpenError extends Error {
+    constructor(gatewayType: GatewayKey) {
+        super(`Circuit is open for gateway ${gatewayType}`);
+        this.name = "CircuitOpenError";
+    }
+}
+
+class CircuitBreaker {
+    private state: CIRCUIT_STATE = CIRCUIT_STATE.CLOSED;
+    private outcomes: boolean[] = []; // true = failure, newest last
+    private openedAt?: Date;
+    private lastError?: string;
+    private trialStartedAt?: Date;
+
+    constructor(
+        private gatewayType: GatewayKey,
+        private options: ICircuitBreakerOptions,
+        private clock: IClock
+    ) {}
+
+    /**
+     * OPEN turns into HALF_OPEN once the cooldown passed, and HALF_OPEN lets a
+     * single trial call through. A trial that never reports back (e.g. the
+     * payment was rejected in validate) is given up after another cooldown.
+     */
+    allowRequest(): boolean {
+        if (this.state === CIRCUIT_STATE.OPEN && this.cooldownPassed(this.openedAt)) {
+            this.moveTo(CIRCUIT_STATE.HALF_OPEN);
+        }
+        if (this.state === CIRCUIT_STATE.HALF_OPEN) {
+            if (this.trialStartedAt && !this.cooldownPassed(this.trialStartedAt)) {
+                return false;
+            }
+            this.trialStartedAt = this.clock.now();
+            return true;
+        }
+        return this.state === CIRCUIT_STATE.CLOSED;
+    }
+
+    recordSuccess() {
+        if (this.state === CIRCUIT_STATE.HALF_OPEN) {
+            this.outcomes = [];
+            this.moveTo(CIRCUIT_STATE.CLOSED);
+            return;
+        }
+        this.record(false);
+    }
+
+    recordFailure(error: Error) {
+        this.lastError = error.message;
+        if (this.state === CIRCUIT_STATE.HALF_OPEN) {
+            this.moveTo(CIRCUIT_STATE.OPEN);
+            return;
+        }
+        this.record(true);
+        if (this.state === CIRCUIT_STATE.CLOSED
+            && this.outcomes.length >= this.options.minimumCalls
+            && this.getFailureRate() >= this.options.failureRateThreshold) {
+            this.moveTo(CIRCUIT_STATE.OPEN);
+        }
+    }
+
+    getState(): ICircuitBreakerState {
+        return {
+            gatewayType: this.gatewayType,
+            state: this.state,
+            failureRate: this.getFailureRate(),
+            calls: this.outcomes.length,
+            openedAt: this.openedAt,
+            lastError: this.lastError,
+        };
+    }
+
+    private cooldownPassed(since?: Date): boolean {
+        return !!since && this.clock.now().getTime() - since.getTime() >= this.options.cooldownInMs;
+    }
+
+    private getFailureRate(): number {
+        if (this.outcomes.length === 0) {
+            return 0;
+        }
+        return this.outcomes.filter(failed => failed).length / this.outcomes.length;
+    }
+
+    private record(failed: boolean) {
+        this.outcomes.push(failed);
+        if (this.outcomes.length > this.options.windowSize) {
+            this.outcomes.shift();
+        }
+    }
+
+    private moveTo(state: CIRCUIT_STATE) {
+        EventBus.getInstance().getLogger().log(
+            state === CIRCUIT_STATE.OPEN ? LOG_LEVEL.WARN : LOG_LEVEL.INFO,
+            `CircuitBreaker :: ${this.gatewayType} :: ${this.state} -> ${state}`,
+            { gatewayType: this.gatewayType, from: this.state, to: state }
+        );
+        this.state = state;
+        this.trialStartedAt = undefined;
+        this.openedAt = state === CIRCUIT_STATE.OPEN ? this.clock.now() : undefined;
+    }
+}
+
+/**
+ * Proxies are created per PaymentService, so the breakers live here to share
+ * the health of a gateway across all of them.
+ */
+class CircuitBreakerRegistry {
+    private static instance: CircuitBreakerRegistry;
+    private breakers: Map<GatewayKey, CircuitBreaker> = new Map();
+    private options: ICircuitBreakerOptions = {
+        failureRateThreshold: 0.5,
+        minimumCalls: 5,
+        windowSize: 20,
+        cooldownInMs: 30 * 1000,
+    };
+    private clock: IClock = new SystemClock();
+
+    static getInstance(): CircuitBreakerRegistry {
+        if (!CircuitBreakerRegistry.instance) {
+            CircuitBreakerRegistry.instance = new CircuitBreakerRegistry();
+        }
+        return CircuitBreakerRegistry.instance;
+    }
+
+    /** Resets every breaker, meant to be called once at startup. */
+    configure(options: Partial<ICircuitBreakerOptions>, clock?: IClock) {
+        this.options = { ...this.options, ...options };
+        this.clock = clock ?? this.clock;
+        this.breakers.clear();
+    }
+
+    getBreaker(gatewayType: GatewayKey): CircuitBreaker {
+        if (!this.breakers.has(gatewayType)) {
+            this.breakers.set(gatewayType, new CircuitBreaker(gatewayType, this.options, this.clock));
+        }
+        return this.breakers.get(gatewayType)!;
+    }
+
+    getStates(): ICircuitBreakerState[] {
+        return PaymentGatewayRegistry.getInstance().keys().map(gatewayType => this.getBreaker(gatewayType).getState());
+    }
+}
+
+/**
+ * In this design proxy introduces because requirements was to add retries.
+ * but in real if we are calling gateway apis using axios than we can
+ * use axiosRetry. so the main purpose if proxy class is to handle
+ * custom logic which is not responsibility of original gateway classes.
+ */
+class PaymentGatewayProxy extends IPaymentGateway {
+    private realGateways: Map<GatewayKey, IPaymentGateway> = new Map();
+    private breakers = CircuitBreakerRegistry.getInstance();
+    constructor(
+        private gateWayType: GatewayKey,
+        private retryPolicy: IRetryPolicy = new FixedRetryPolicy(3),
+        private clock: IClock = new SystemClock(),
+        private failover: boolean = false
+    ) {
+        super();
+    }
+
+    private getRealGateway(gatewayType: GatewayKey): IPaymentGateway {
+        if (!this.realGateways.has(gatewayType)) {
+            this.realGateways.set(gatewayType, PaymentGatewayFactory.createGateway(gatewayType));
+        }
+        return this.realGateways.get(gatewayType)!;
+    }
+
+    /**
+     * Picks the gateway for a new payment. When the circuit of our gateway is
+     * open we either fail fast or, with failover on, move to the next gateway
+     * that can take the amount and whose circuit lets requests through.
+     */
+    private route(paymentReq: PaymentReq) {
+        const registry = PaymentGatewayRegistry.getInstance();
+        const requirements: IGatewayRequirements = { amount: paymentReq.getDetails.amount };
+        if (!registry.supports(this.gateWayType, requirements)) {
+            throw new Error(`Gateway ${this.gateWayType} can't process ${paymentReq.getDetails.id}`);
+        }
+        if (this.breakers.getBreaker(this.gateWayType).allowRequest()) {
+            paymentReq.routeTo(this.gateWayType);
+            return;
+        }
+        this.failOver(paymentReq, this.gateWayType);
+    }
+
+    /** Moves the payment off a gateway whose circuit is open, or throws when failover is off or nothing else is healthy. */
+    private failOver(paymentReq: PaymentReq, from: GatewayKey) {
+        if (!this.failover) {
+            throw new CircuitOpenError(from);
+        }
+        const requirements: IGatewayRequirements = { amount: paymentReq.getDetails.amount };
+        const fallback = PaymentGatewayRegistry.getInstance().findByCapabilities(requirements)
+            .map(registration => registration.key)
+            .find(gatewayType => gatewayType !== from && this.breakers.getBreaker(gatewayType).allowRequest());
+        if (!fallback) {
+            throw new CircuitOpenError(from);
+        }
+        const reason = `circuit ${this.breakers.getBreaker(from).getState().state} for ${from}`;
+        this.log(LOG_LEVEL.WARN, `failOver :: ${paymentReq.getDetails.id} -> ${fallback} (${reason})`, paymentReq);
+        paymentReq.routeTo(fallback, reason);
+    }
+
+    async validate(paymentReq: PaymentReq) {
+        this.log(LOG_LEVEL.INFO, `validate :: STARTS ${paymentReq.getDetails.id}`, paymentReq);
+        this.route(paymentReq);
+        const res = await this.getRealGateway(paymentReq.getProcessingGatewayType()).validate(paymentReq);
+        this.log(LOG_LEVEL.INFO, `validate :: ENDS ${paymentReq.getDetails.id}`, paymentReq);
+        return res
+    }
+
+    /**
+     * Retries go through the breaker again, route() only asked it for the
+     * first attempt. Once the circuit opened in between we fail over to a
+     * healthy gateway or stop, nothing was captured yet so either is safe.
+     */
+    async process(paymentReq: PaymentReq) {
+        const startedAt = this.clock.now().getTime();
+        let attempt = 0;
+        while (true) {
+            attempt++;
+            if (attempt > 1 && !this.breakers.getBreaker(paymentReq.getProcessingGatewayType()).allowRequest()) {
+                this.failOver(paymentReq, paymentReq.getProcessingGatewayType());
+            }
+            const gatewayType = paymentReq.getProcessingGatewayType();
+            const breaker = this.breakers.getBreaker(gatewayType);
+            try {
+                /** the previous attempt captured the money and failed afterwards, so don't charge again */
+                if (paymentReq.getDetails.gatewayReference) {
+                    this.log(LOG_LEVEL.INFO, `process :: already captured ${paymentReq.getDetails.gatewayReference}`, paymentReq);
+                    return;
+                }
+                this.log(LOG_LEVEL.INFO, `process :: STARTS ${paymentReq.getDetails.id}`, paymentReq);
+
+                /** uncomment to check retry */
+                // if (attempt < 3) throw new TransientGatewayError("First request will fail");
+
+                await this.getRealGateway(gatewayType).process(paymentReq);
+                breaker.recordSuccess();
+                this.log(LOG_LEVEL.INFO, `process :: ENDS ${paymentReq.getDetails.id}`, paymentReq);
+                return;
+            } catch (error) {
+                breaker.recordFailure(error as Error);
+                const delay = this.retryPolicy.nextDelayInMs({
+                    attempt,
+                    error: error as Error,
+                    elapsedMs: this.clock.now().getTime() - startedAt,
+                });
+                EventBus.getInstance().publish({
+                    type: PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED,
+                    paymentReqId: paymentReq.getDetails.id,
+                    gatewayType,
+                    attempt,
+                    error: (error as Error).message,
+                    retryInMs: delay,
+                });
+                if (delay === null) {
+                    this.log(LOG_LEVEL.ERROR, `process :: failed after ${attempt} attempt(s), giving up`, paymentReq);
+                    throw error;
+                }
+                this.log(LOG_LEVEL.WARN, `process :: attempt ${attempt} failed, retrying in ${delay}ms`, paymentReq);
+                await this.clock.sleep(delay);
+            }
+        }
+    }
+
+    async confirm(paymentReq: PaymentReq): Promise<IResponse> {
+        this.log(LOG_LEVEL.INFO, `confirm :: STARTS ${paymentReq.getDetails.id}`, paymentReq);
+        const response = await this.getRealGateway(paymentReq.getProcessingGatewayType()).confirm(paymentReq);
+        this.log(LOG_LEVEL.INFO, `confirm :: ENDS ${paymentReq.getDetails.id}`, paymentReq);
+        return response;
+    }
+
+    /** No retries here, a refund that timed out may still have been issued by the gateway. */
+    async refund(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse> {
+        this.log(LOG_LEVEL.INFO, `refund :: STARTS ${paymentReq.getDetails.id} :: ${refundReq.getDetails.id}`, paymentReq);
+        const response = await this.getRealGateway(paymentReq.getProcessingGatewayType()).refund(paymentReq, refundReq);
+        this.log(LOG_LEVEL.INFO, `refund :: ENDS ${paymentReq.getDetails.id} :: ${refundReq.getDetails.id}`, paymentReq);
+        return response;
+    }
+
+    private log(level: LOG_LEVEL, message: string, paymentReq: PaymentReq) {
+        EventBus.getInstance().getLogger().log(level, `PaymentGatewayProxy :: ${message}`, { paymentReqId: paymentReq.getDetails.id });
+    }
+}
+
+enum RISK_DECISION {
+    ALLOW = "ALLOW",
+    REVIEW = "REVIEW",
+    DENY = "DENY",
+}
+
+interface IRiskSignal {
+    rule: string;
+    score: number;
+    reason: string;
+}
+
+interface IRiskAssessment {
+    decision: RISK_DECISION;
+    score: number;
+    signals: IRiskSignal[];
+    assessedAt: Date;
+    reviewedBy?: string; // set once a reviewer decided a REVIEW
+    reviewedAt?: Date;
+    reviewNote?: string;
+}
+
+/** Earlier payments of the sender, the current one left out. */
+interface IRiskContext {
+    now: Date;
+    senderHistory: PaymentReq[];
+}
+
+/** Returns null when the payment looks fine to this rule, the scores of all signals add up. */
+abstract class IRiskRule {
+    abstract readonly name: string;
+    abstract evaluate(paymentReq: PaymentReq, context: IRiskContext): IRiskSignal | null;
+
+    protected signal(score: number, reason: string): IRiskSignal {
+        return { rule: this.name, score, reason };
+    }
+}
+
+class SelfPaymentRule extends IRiskRule {
+    readonly name = "SELF_PAYMENT";
+    constructor(private score: number = 100) {
+        super();
+    }
+
+    evaluate(paymentReq: PaymentReq): IRiskSignal | null {
+        const { sender, receiver } = paymentReq.getDetails;
+        if (sender.getDetails().username !== receiver.getDetails().username) {
+            return null;
+        }
+        return this.signal(this.score, "sender and receiver are the same user");
+    }
+}
+
+class BlocklistRule extends IRiskRule {
+    readonly name = "BLOCKLIST";
+    private blockedUserIds: Set<string>;
+    constructor(blockedUserIds: string[] = [], private score: number = 100) {
+        super();
+        this.blockedUserIds = new Set(blockedUserIds);
+    }
+
+    block(userId: string) {
+        this.blockedUserIds.add(userId);
+    }
+
+    unblock(userId: string) {
+        this.blockedUserIds.delete(userId);
+    }
+
+    evaluate(paymentReq: PaymentReq): IRiskSignal | null {
+        const { sender, receiver } = paymentReq.getDetails;
+        const blocked = [sender, receiver]
+            .map(user => user.getDetails().username)
+            .filter(userId => this.blockedUserIds.has(userId));
+        return blocked.length ? this.signal(this.score, `${blocked.join(", ")} is blocklisted`) : null;
+    }
+}
+
+/** Caps are compared after converting the amount to the currency of the cap. */
+class TransactionAmountCapRule extends IRiskRule {
+    readonly name = "TRANSACTION_AMOUNT_CAP";
+    constructor(private maxAmount: Money, private score: number = 50) {
+        super();
+    }
+
+    evaluate(paymentReq: PaymentReq): IRiskSignal | null {
+        const amount = FxService.getInstance().convert(paymentReq.getDetails.amount, this.maxAmount.getCurrency()).to;
+        return amount.greaterThan(this.maxAmount) ? this.signal(this.score, `${amount} is over the ${this.maxAmount} per payment cap`) : null;
+    }
+}
+
+/** Payments that never got past CREATED or failed didn't move money and don't count. */
+const RISK_COUNTED_STATUSES = [
+    PAYMENT_STATUS.IN_REVIEW,
+    PAYMENT_STATUS.VALIDATED,
+    PAYMENT_STATUS.PROCESSING,
+    PAYMENT_STATUS.CONFIRMED,
+    PAYMENT_STATUS.PARTIALLY_REFUNDED,
+    PAYMENT_STATUS.REFUNDED,
+];
+
+/** Counts the sender's payments since midnight of the current day. */
+class DailyAmountCapRule extends IRiskRule {
+    readonly name = "DAILY_AMOUNT_CAP";
+    constructor(private maxAmount: Money, private score: number = 50) {
+        super();
+    }
+
+    evaluate(paymentReq: PaymentReq, context: IRiskContext): IRiskSignal | null {
+        const fx = FxService.getInstance();
+        const currency = this.maxAmount.getCurrency();
+        const startOfDay = new Date(context.now.getTime());
+        startOfDay.setHours(0, 0, 0, 0);
+        const total = context.senderHistory
+            .filter(payment => payment.getDetails.createdAt >= startOfDay && RISK_COUNTED_STATUSES.includes(payment.getStatus()))
+            .reduce((sum, payment) => sum.add(fx.convert(payment.getDetails.amount, currency).to), fx.convert(paymentReq.getDetails.amount, currency).to);
+        return total.greaterThan(this.maxAmount) ? this.signal(this.score, `${total} today is over the ${this.maxAmount} daily cap`) : null;
+    }
+}
+
+class VelocityRule extends IRiskRule {
+    readonly name = "VELOCITY";
+    constructor(private maxPayments: number, private windowInSeconds: number, private score: number = 50) {
+        super();
+    }
+
+    evaluate(paymentReq: PaymentReq, context: IRiskContext): IRiskSignal | null {
+        const windowStart = new Date(context.now.getTime() - this.windowInSeconds * 1000);
+        const count = context.senderHistory
+            .filter(payment => payment.getDetails.createdAt >= windowStart && RISK_COUNTED_STATUSES.includes(payment.getStatus()))
+            .length + 1;
+        if (count <= this.maxPayments) {
+            return null;
+        }
+        return this.signal(this.score, `${count} payments in ${this.windowInSeconds}s, at most ${this.maxPayments} allowed`);
+    }
+}
+
+interface IRiskEngineOptions {
+    rules: IRiskRule[];
+    reviewScore: number; // total score from which a payment is held for review
+    denyScore: number; // total score from which a payment is rejected outright
+}
+
+/** Thrown for a payment the risk engine denied or held, check decision to tell them apart. */
+class PaymentRiskError extends Error {
+    constructor(public paymentReqId: string, public decision: RISK_DECISION, reasons: string[]) {
+        super(`Payment ${paymentReqId} ${decision === RISK_DECISION.DENY ? "denied" : "held for review"}: ${reasons.join("; ")}`);
+        this.name = "PaymentRiskError";
+    }
+}
+
+/**
+ * Screens every payment before it reaches a gateway. Each rule adds to one
+ * score and the thresholds turn the total into a decision, so a few weak
+ * signals together can still send a payment to review.
+ */
+class RiskEngine {
+    private static instance: RiskEngine;
+    private options: IRiskEngineOptions = {
+        rules: [
+            new SelfPaymentRule(),
+            new BlocklistRule(),
+            new TransactionAmountCapRule(Money.of(100000, "INR")),
+            new DailyAmountCapRule(Money.of(500000, "INR")),
+            new VelocityRule(10, 60),
+        ],
+        reviewScore: 50,
+        denyScore: 100,
+    };
+    private clock: IClock = new SystemClock();
+
+    static getInstance(): RiskEngine {
+        if (!RiskEngine.instance) {
+            RiskEngine.instance = new RiskEngine();
+        }
+        return RiskEngine.instance;
+    }
+
+    configure(options: Partial<IRiskEngineOptions>, clock: IClock = new SystemClock()) {
+        this.options = { ...this.options, ...options };
+        this.clock = clock;
+    }
+
+    getRule<T extends IRiskRule>(name: string): T | undefined {
+        return this.options.rules.find(rule => rule.name === name) as T | undefined;
+    }
+
+    assess(paymentReq: PaymentReq): IRiskAssessment {
+        const { id, sender } = paymentReq.getDetails;
+        const senderId = sender.getDetails().username;
+        const context: IRiskContext = {
+            now: this.clock.now(),
+            senderHistory: PaymentReqController.getInstance()
+                .query({ userId: senderId })
+                .filter(payment => payment.getDetails.id !== id && payment.getDetails.sender.getDetails().username === senderId),
+        };
+        const signals = this.options.rules
+            .map(rule => rule.evaluate(paymentReq, context))
+            .filter((signal): signal is IRiskSignal => signal !== null);
+        const score = signals.reduce((sum, signal) => sum + signal.score, 0);
+        let decision = RISK_DECISION.ALLOW;
+        if (score >= this.options.denyScore) {
+            decision = RISK_DECISION.DENY;
+        } else if (score >= this.options.reviewScore) {
+            decision = RISK_DECISION.REVIEW;
+        }
+        return { decision, score, signals, assessedAt: context.now };
+    }
+
+    /**
+     * Lets the payment through or throws PaymentRiskError. A payment is only
+     * assessed once, a held one goes on after approve and never on its own.
+     */
+    screen(paymentReq: PaymentReq) {
+        const { id, riskAssessment } = paymentReq.getDetails;
+        if (paymentReq.getStatus() === PAYMENT_STATUS.IN_REVIEW) {
+            if (riskAssessment?.decision !== RISK_DECISION.ALLOW) {
+                throw new PaymentRiskError(id, RISK_DECISION.REVIEW, ["waiting for a reviewer"]);
+            }
+            return;
+        }
+        if (paymentReq.getStatus() !== PAYMENT_STATUS.CREATED) {
+            return;
+        }
+
+        const assessment = this.assess(paymentReq);
+        paymentReq.setRiskAssessment(assessment);
+        const reasons = assessment.signals.map(signal => signal.reason);
+        EventBus.getInstance().getLogger().log(
+            assessment.decision === RISK_DECISION.ALLOW ? LOG_LEVEL.INFO : LOG_LEVEL.WARN,
+            `RiskEngine :: ${id} :: ${assessment.decision} (score ${assessment.score})`,
+            { paymentReqId: id, decision: assessment.decision, score: assessment.score, reasons }
+        );
+        if (assessment.decision === RISK_DECISION.DENY) {
+            paymentReq.transitionTo(PAYMENT_STATUS.FAILED, `risk: ${reasons.join("; ")}`);
+            EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId: id, reason: `risk: ${reasons.join("; ")}` });
+            throw new PaymentRiskError(id, assessment.decision, reasons);
+        }
+        if (assessment.decision === RISK_DECISION.REVIEW) {
+            paymentReq.transitionTo(PAYMENT_STATUS.IN_REVIEW, `risk: ${reasons.join("; ")}`);
+            EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_HELD_FOR_REVIEW, paymentReqId: id, score: assessment.score, reasons });
+            throw new PaymentRiskError(id, assessment.decision, reasons);
+        }
+    }
+
+    listPendingReviews(): PaymentReq[] {
+        return PaymentReqController.getInstance().listByStatus(PAYMENT_STATUS.IN_REVIEW);
+    }
+
+    /** The payment still has to be processed again, approving only clears it. */
+    approve(paymentReqId: string, reviewer: string, note?: string): PaymentReq {
+        return this.review(paymentReqId, RISK_DECISION.ALLOW, reviewer, note);
+    }
+
+    reject(paymentReqId: string, reviewer: string, note?: string): PaymentReq {
+        const paymentReq = this.review(paymentReqId, RISK_DECISION.DENY, reviewer, note);
+        const reason = `rejected by ${reviewer}${note ? `: ${note}` : ""}`;
+        paymentReq.transitionTo(PAYMENT_STATUS.FAILED, reason);
+        EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId, reason });
+        PaymentReqController.getInstance().save(paymentReq);
+        return paymentReq;
+    }
+
+    private review(paymentReqId: string, decision: RISK_DECISION, reviewer: string, note?: string): PaymentReq {
+        const paymentReq = PaymentReqController.getInstance().get(paymentReqId);
+        if (!paymentReq) {
+            throw new Error(`Payment ${paymentReqId} not found`);
+        }
+        const { riskAssessment } = paymentReq.getDetails;
+        if (paymentReq.getStatus() !== PAYMENT_STATUS.IN_REVIEW || !riskAssessment || riskAssessment.reviewedBy) {
+            throw new Error(`Payment ${paymentReqId} is not waiting for review`);
+        }
+        paymentReq.setRiskAssessment({ ...riskAssessment, decision, reviewedBy: reviewer, reviewedAt: this.clock.now(), reviewNote: note });
+        PaymentReqController.getInstance().save(paymentReq);
+        EventBus.getInstance().getLogger().log(LOG_LEVEL.INFO, `RiskEngine :: ${paymentReqId} :: ${decision} by ${reviewer}`, { paymentReqId, decision, reviewer });
+        return paymentReq;
+    }
+}
+
+class PaymentService {
+    private proxy: PaymentGatewayProxy;
+    constructor(gatewayType: GatewayKey, retryPolicy?: IRetryPolicy, clock?: IClock, failover?: boolean) {
+        this.proxy = new PaymentGatewayProxy(gatewayType, retryPolicy, clock, failover);
+    }
+
+    /** Picks the first registered gateway that has everything the payment needs. */
+    static forCapabilities(
+        requirements: IGatewayRequirements,
+        retryPolicy?: IRetryPolicy,
+        clock?: IClock,
+        failover?: boolean
+    ): PaymentService {
+        const [registration] = PaymentGatewayRegistry.getInstance().findByCapabilities(requirements);
+        if (!registration) {
+            throw new Error(`No gateway supports ${JSON.stringify(requirements)}`);
+        }
+        return new PaymentService(registration.key, retryPolicy, clock, failover);
+    }
+
+    /**
+     * With an idempotency key a replayed call gets the original response back
+     * instead of running the gateway again. While the first call is running
+     * the key is held IN_PROGRESS and a duplicate is turned away with an
+     * IdempotencyConflictError before it touches the payment. Failed attempts
+     * are not stored, so the client can retry them with the same key.
+     */
+    async processPayment(paymentReq: PaymentReq, idempotencyKey?: string): Promise<IResponse> {
+        const paymentReqController = PaymentReqController.getInstance();
+        const storedResponse = idempotencyKey && paymentReqController.beginIdempotentRequest(idempotencyKey, paymentReq);
+        if (storedResponse) {
+            EventBus.getInstance().getLogger().log(LOG_LEVEL.INFO, `PaymentService :: processPayment :: replayed ${idempotencyKey}`, { paymentReqId: paymentReq.getDetails.id });
+            return storedResponse;
+        }
+
+        let response: IResponse;
+        try {
+            RiskEngine.getInstance().screen(paymentReq);
+            response = await this.proxy.processPayment(paymentReq);
+        } catch (error) {
+            if (idempotencyKey) {
+                paymentReqController.releaseIdempotencyKey(idempotencyKey);
+            }
+            throw error;
+        } finally {
+            paymentReqController.save(paymentReq);
+        }
+        if (idempotencyKey) {
+            paymentReqController.saveIdempotentResponse(idempotencyKey, paymentReq, response);
+        }
+        return response;
+    }
+
+    /** Refunds the whole remaining amount when no amount is passed. */
+    async refundPayment(paymentReq: PaymentReq, amount?: Money, reason?: string): Promise<IResponse> {
+        const gatewayType = paymentReq.getProcessingGatewayType();
+        if (!PaymentGatewayRegistry.getInstance().supports(gatewayType, { refunds: true })) {
+            throw new Error(`Gateway ${gatewayType} doesn't support refunds`);
+        }
+        const refundAmount = amount ?? paymentReq.getRefundableAmount();
+        // the receiver must still hold the money we are about to give back
+        const receiverId = paymentReq.getDetails.receiver.getDetails().username;
+        Ledger.getInstance().assertAvailable(receiverId, paymentReq.getSettlementShare(refundAmount));
+        const paymentReqController = PaymentReqController.getInstance();
+        const refundReq = paymentReqController.createRefund(paymentReq, refundAmount, reason);
+        try {
+            return await this.proxy.refundPayment(paymentReq, refundReq);
+        } finally {
+            paymentReqController.save(paymentReq);
+            paymentReqController.saveRefund(refundReq);
+        }
+    }
+}
+
+enum SPLIT_TYPE {
+    FIXED = "FIXED", // every leg names its amount, together they must add up to the total
+    PERCENTAGE = "PERCENTAGE", // every leg names its percentage, together they must add up to 100
+}
+
+/** Where the minor units go that are left over after rounding every percentage leg down. */
+enum SPLIT_REMAINDER_POLICY {
+    FIRST_LEG = "FIRST_LEG",
+    LAST_LEG = "LAST_LEG",
+    LARGEST_REMAINDER = "LARGEST_REMAINDER", // one unit each to the legs that lost the most to rounding
+}
+
+interface ISplitLegSpec {
+    receiver: PaymentUser;
+    amount?: Money; // for SPLIT_TYPE.FIXED
+    percentage?: number; // for SPLIT_TYPE.PERCENTAGE
+    gatewayType?: GatewayKey; // defaults to the gateway of the split
+}
+
+class SplitCalculator {
+    static allocate(total: Money, splitType: SPLIT_TYPE, legs: ISplitLegSpec[], remainderPolicy: SPLIT_REMAINDER_POLICY): Money[] {
+        if (!legs.length) {
+            throw new Error("A split needs at least one leg");
+        }
+        return splitType === SPLIT_TYPE.FIXED
+            ? SplitCalculator.allocateFixed(total, legs)
+            : SplitCalculator.allocatePercentage(total, legs, remainderPolicy);
+    }
+
+    private static allocateFixed(total: Money, legs: ISplitLegSpec[]): Money[] {
+        const amounts = legs.map((leg, index) => {
+            if (!leg.amount || !leg.amount.isPositive()) {
+                throw new Error(`Leg ${index + 1} needs a positive amount`);
+            }
+            return leg.amount;
+        });
+        const sum = amounts.reduce((acc, amount) => acc.add(amount), Money.zero(total.getCurrency()));
+        if (!sum.equals(total)) {
+            throw new Error(`Legs add up to ${sum}, expected ${total}`);
+        }
+        return amounts;
+    }
+
+    private static allocatePercentage(total: Money, legs: ISplitLegSpec[], remainderPolicy: SPLIT_REMAINDER_POLICY): Money[] {
+        const percentages = legs.map((leg, index) => {
+            if (leg.percentage === undefined || leg.percentage <= 0) {
+                throw new Error(`Leg ${index + 1} needs a positive percentage`);
+            }
+            return leg.percentage;
+        });
+        const percentageSum = percentages.reduce((sum, percentage) => sum + percentage, 0);
+        // a small tolerance so 33.33 + 33.33 + 33.34 is accepted
+        if (Math.abs(percentageSum - 100) > 1e-9) {
+            throw new Error(`Leg percentages add up to ${percentageSum}, expected 100`);
+        }
+
+        const exact = percentages.map(percentage => total.getMinorUnits() * percentage / 100);
+        const minorUnits = exact.map(Math.floor);
+        let remainder = total.getMinorUnits() - minorUnits.reduce((sum, units) => sum + units, 0);
+        let order = legs.map((_, index) => index);
+        if (remainderPolicy === SPLIT_REMAINDER_POLICY.LARGEST_REMAINDER) {
+            // ties go to the earlier leg, so the result doesn't depend on sort stability
+            order = order.sort((a, b) => (exact[b] - minorUnits[b]) - (exact[a] - minorUnits[a]) || a - b);
+        } else if (remainderPolicy === SPLIT_REMAINDER_POLICY.LAST_LEG) {
+            order = [legs.length - 1];
+        } else {
+            order = [0];
+        }
+        for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+            minorUnits[order[i]]++;
+        }
+        return minorUnits.map((units, index) => {
+            if (units <= 0) {
+                throw new Error(`Leg ${index + 1} rounds down to nothing out of ${total}`);
+            }
+            return Money.ofMinor(units, total.getCurrency());
+        });
+    }
+}
+
+enum SPLIT_STATUS {
+    CREATED = "CREATED",
+    PROCESSING = "PROCESSING",
+    COMPLETED = "COMPLETED",
+    FAILED = "FAILED",
+}
+
+interface ISplitPaymentReq {
+    id: string;
+    sender: PaymentUser;
+    amount: Money;
+    gatewayType: GatewayKey;
+    splitType: SPLIT_TYPE;
+    remainderPolicy: SPLIT_REMAINDER_POLICY;
+    status: SPLIT_STATUS;
+    legs: PaymentReq[];
+    failureReason?: string;
+    outstandingLegIds: string[]; // legs of a failed split that compensation couldn't settle, they need a person
+    createdAt: Date;
+}
+
+/**
+ * One charge of the sender split across receivers. Every leg is a normal
+ * PaymentReq, so it is processed, tracked and refunded like any payment.
+ */
+class SplitPaymentReq {
+    private id: string;
+    private status: SPLIT_STATUS = SPLIT_STATUS.CREATED;
+    private failureReason?: string;
+    private outstandingLegIds: string[] = [];
+    private createdAt: Date = new Date();
+    constructor(
+        private sender: PaymentUser,
+        private amount: Money,
+        private gatewayType: GatewayKey,
+        private splitType: SPLIT_TYPE,
+        private remainderPolicy: SPLIT_REMAINDER_POLICY,
+        private legs: PaymentReq[]
+    ) {
+        this.id = IDGenerator.generate();
+    }
+
+    get getDetails(): ISplitPaymentReq {
+        return {
+            id: this.id,
+            sender: this.sender,
+            amount: this.amount,
+            gatewayType: this.gatewayType,
+            splitType: this.splitType,
+            remainderPolicy: this.remainderPolicy,
+            status: this.status,
+            legs: [...this.legs],
+            failureReason: this.failureReason,
+            outstandingLegIds: [...this.outstandingLegIds],
+            createdAt: this.createdAt,
+        };
+    }
+
+    getStatus(): SPLIT_STATUS {
+        return this.status;
+    }
+
+    getLeg(paymentReqId: string): PaymentReq {
+        const leg = this.legs.find(candidate => candidate.getDetails.id === paymentReqId);
+        if (!leg) {
+            throw new Error(`Payment ${paymentReqId} is not a leg of split ${this.id}`);
+        }
+        return leg;
+    }
+
+    /** Refunds of single legs don't change the split, this only adds them up. */
+    getRefundedAmount(): Money {
+        return this.legs.reduce((sum, leg) => sum.add(leg.getDetails.refundedAmount), Money.zero(this.amount.getCurrency()));
+    }
+
+    markProcessing() {
+        if (this.status !== SPLIT_STATUS.CREATED) {
+            throw new Error(`Split ${this.id} is already ${this.status}`);
+        }
+        this.status = SPLIT_STATUS.PROCESSING;
+    }
+
+    markCompleted() {
+        this.status = SPLIT_STATUS.COMPLETED;
+    }
+
+    markFailed(failureReason: string, outstandingLegIds: string[] = []) {
+        this.status = SPLIT_STATUS.FAILED;
+        this.failureReason = failureReason;
+        this.outstandingLegIds = outstandingLegIds;
+    }
+}
+
+/**
+ * A split succeeds or fails as a whole. Before any money moves every leg is
+ * checked against its gateway and the sender's balance. When a leg still
+ * fails afterwards, the legs already confirmed are refunded in full and the
+ * ones not processed yet are failed. That's why every leg's gateway has to
+ * support refunds. A leg waiting for a webhook can't be undone here, so
+ * splits should go through gateways that confirm synchronously. Legs that
+ * couldn't be compensated are listed as outstanding on the failed split.
+ */
+class SplitPaymentService {
+    private static instance: SplitPaymentService;
+    private splits: Map<string, SplitPaymentReq> = new Map();
+
+    static getInstance(): SplitPaymentService {
+        if (!SplitPaymentService.instance) {
+            SplitPaymentService.instance = new SplitPaymentService();
+        }
+        return SplitPaymentService.instance;
+    }
+
+    create(
+        sender: PaymentUser,
+        amount: Money,
+        gatewayType: GatewayKey,
+        splitType: SPLIT_TYPE,
+        legSpecs: ISplitLegSpec[],
+        remainderPolicy: SPLIT_REMAINDER_POLICY = SPLIT_REMAINDER_POLICY.LARGEST_REMAINDER,
+        message?: string
+    ): SplitPaymentReq {
+        const amounts = SplitCalculator.allocate(amount, splitType, legSpecs, remainderPolicy);
+        const paymentReqController = PaymentReqController.getInstance();
+        const legs = legSpecs.map((legSpec, index) => paymentReqController.create(
+            sender,
+            legSpec.receiver,
+            amounts[index],
+            legSpec.gatewayType ?? gatewayType,
+            `${message ?? "Split payment"} (${index + 1}/${legSpecs.length})`
+        ));
+        const split = new SplitPaymentReq(sender, amount, gatewayType, splitType, remainderPolicy, legs);
+        this.splits.set(split.getDetails.id, split);
+        return split;
+    }
+
+    get(splitId: string): SplitPaymentReq {
+        const split = this.splits.get(splitId);
+        if (!split) {
+            throw new Error(`Split ${splitId} not found`);
+        }
+        return split;
+    }
+
+    list(): SplitPaymentReq[] {
+        return Array.from(this.splits.values());
+    }
+
+    async process(split: SplitPaymentReq, retryPolicy?: IRetryPolicy, clock?: IClock): Promise<SplitPaymentReq> {
+        split.markProcessing();
+        const { id, legs } = split.getDetails;
+        try {
+            this.assertProcessable(split);
+            for (const leg of legs) {
+                await new PaymentService(leg.getDetails.gatewayType, retryPolicy, clock).processPayment(leg);
+                if (leg.getStatus() !== PAYMENT_STATUS.CONFIRMED) {
+                    throw new Error(`Leg ${leg.getDetails.id} is ${leg.getStatus()} instead of CONFIRMED`);
+                }
+            }
+        } catch (error) {
+            const reason = `split ${id} failed: ${(error as Error).message}`;
+            this.log(LOG_LEVEL.ERROR, reason, split);
+            const outstandingLegIds = await this.compensate(split, reason);
+            split.markFailed((error as Error).message, outstandingLegIds);
+            throw error;
+        }
+        split.markCompleted();
+        this.log(LOG_LEVEL.INFO, `split ${id} completed with ${legs.length} leg(s)`, split);
+        return split;
+    }
+
+    /** Refunds one leg, the other legs of the split are not touched. */
+    async refundLeg(split: SplitPaymentReq, paymentReqId: string, amount?: Money, reason?: string): Promise<IResponse> {
+        if (split.getStatus() !== SPLIT_STATUS.COMPLETED) {
+            throw new Error(`Split ${split.getDetails.id} is ${split.getStatus()}, only completed splits have legs to refund`);
+        }
+        const leg = split.getLeg(paymentReqId);
+        return new PaymentService(leg.getProcessingGatewayType()).refundPayment(leg, amount, reason);
+    }
+
+    private assertProcessable(split: SplitPaymentReq) {
+        const { sender, amount, legs } = split.getDetails;
+        const registry = PaymentGatewayRegistry.getInstance();
+        for (const leg of legs) {
+            const { id, gatewayType, amount: legAmount } = leg.getDetails;
+            if (!registry.supports(gatewayType, { amount: legAmount, refunds: true })) {
+                throw new Error(`Gateway ${gatewayType} can't process leg ${id} of ${legAmount} with refunds`);
+            }
+        }
+        Ledger.getInstance().assertAvailable(sender.getDetails().username, amount);
+    }
+
+    /** Every leg gets its chance, one that can't be undone doesn't stop the others. Returns the ids of those left over. */
+    private async compensate(split: SplitPaymentReq, reason: string): Promise<string[]> {
+        const outstandingLegIds: string[] = [];
+        for (const leg of split.getDetails.legs) {
+            const { id } = leg.getDetails;
+            try {
+                if (leg.getStatus() === PAYMENT_STATUS.CONFIRMED) {
+                    await new PaymentService(leg.getProcessingGatewayType()).refundPayment(leg, undefined, reason);
+                } else if (leg.getStatus() === PAYMENT_STATUS.PROCESSING) {
+                    throw new Error("still waiting for the gateway");
+                } else if (leg.canTransitionTo(PAYMENT_STATUS.FAILED)) {
+                    leg.transitionTo(PAYMENT_STATUS.FAILED, reason);
+                    EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId: id, reason });
+                    PaymentReqController.getInstance().save(leg);
+                }
+            } catch (error) {
+                this.log(LOG_LEVEL.ERROR, `compensate :: leg ${id} is outstanding :: ${(error as Error).message}`, split);
+                outstandingLegIds.push(id);
+            }
+        }
+        return outstandingLegIds;
+    }
+
+    private log(level: LOG_LEVEL, message: string, split: SplitPaymentReq) {
+        EventBus.getInstance().getLogger().log(level, `SplitPaymentService :: ${message}`, { splitId: split.getDetails.id });
+    }
+}
+
+/** A provider callback after the handler of its gateway has verified and parsed it. */
+interface IGatewayCallback {
+    eventId: string;
+    paymentReqId: string;
+    gatewayReference: string;
+    status: PAYMENT_STATUS.CONFIRMED | PAYMENT_STATUS.FAILED;
+    occurredAt: Date;
+    reason?: string;
+}
+
+/** Turned into the response we send back to the gateway, a non 2xx makes the gateway retry the callback. */
+class WebhookRejectedError extends Error {
+    constructor(public statusCode: number, message: string) {
+        super(message);
+        this.name = "WebhookRejectedError";
+    }
+}
+
+/** Signature checking is the same for every gateway, only the header and the payload format differ. */
+abstract class IWebhookHandler {
+    abstract readonly signatureHeader: string;
+    constructor(private secret: string) {}
+
+    abstract parse(payload: unknown): IGatewayCallback;
+
+    sign(rawBody: string): string {
+        return crypto.createHmac("sha256", this.secret).update(rawBody).digest("hex");
+    }
+
+    /** The signature is computed over the raw body, so this has to run before anything parses it. */
+    verify(rawBody: string, headers: Record<string, string | undefined>): IGatewayCallback {
+        const signature = Buffer.from(headers[this.signatureHeader] ?? "");
+        const expected = Buffer.from(this.sign(rawBody));
+        // constant time compare, so the signature can't be guessed from response times
+        if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+            throw new WebhookRejectedError(401, `Invalid ${this.signatureHeader}`);
+        }
+        let payload: unknown;
+        try {
+            payload = JSON.parse(rawBody);
+        } catch (error) {
+            throw new WebhookRejectedError(400, "Callback body is not JSON");
+        }
+        return this.parse(payload);
+    }
+
+    /** Narrows the parsed body to the payload of a gateway, every field we read is a string. */
+    protected require<T>(payload: unknown, required: (keyof T & string)[], optional: (keyof T & string)[] = []): T {
+        if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+            throw new WebhookRejectedError(400, "Callback body is not an object");
+        }
+        const fields = payload as Record<string, unknown>;
+        const missing = required.filter(field => fields[field] === undefined || fields[field] === null);
+        if (missing.length) {
+            throw new WebhookRejectedError(400, `Callback is missing ${missing.join(", ")}`);
+        }
+        const invalid = required.concat(optional).filter(field => fields[field] !== undefined && fields[field] !== null && typeof fields[field] !== "string");
+        if (invalid.length) {
+            throw new WebhookRejectedError(400, `Callback fields ${invalid.join(", ")} must be strings`);
+        }
+        return payload as T;
+    }
+
+    protected parseDate(value: string, field: string): Date {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new WebhookRejectedError(400, `Callback ${field} is not a date: ${value}`);
+        }
+        return date;
+    }
+}
+
+/**
+ * Applies gateway callbacks to payments. A callback we already applied is
+ * acknowledged without doing anything, so the gateway stops retrying it. A
+ * callback older than the last one applied to the payment, or older than
+ * maxEventAgeInSeconds, is rejected as out of order or replayed. One dated
+ * more than maxClockSkewInSeconds ahead of us is rejected as well, otherwise
+ * it would pass the age check for longer and block every later callback.
+ */
+class WebhookController {
+    private static instance: WebhookController;
+    private handlers: Map<GatewayKey, IWebhookHandler> = new Map();
+    private processedEventIds: Set<string> = new Set();
+    private lastCallbackAt: Map<string, Date> = new Map(); // by payment id
+    private maxEventAgeInSeconds: number = 5 * 60;
+    private maxClockSkewInSeconds: number = 30;
+    private clock: IClock = new SystemClock();
+
+    static getInstance(): WebhookController {
+        if (!WebhookController.instance) {
+            WebhookController.instance = new WebhookController();
+        }
+        return WebhookController.instance;
+    }
+
+    configure(maxEventAgeInSeconds: number, clock: IClock = new SystemClock(), maxClockSkewInSeconds: number = 30) {
+        this.maxEventAgeInSeconds = maxEventAgeInSeconds;
+        this.clock = clock;
+        this.maxClockSkewInSeconds = maxClockSkewInSeconds;
+    }
+
+    register(gatewayType: GatewayKey, handler: IWebhookHandler) {
+        this.handlers.set(gatewayType, handler);
+    }
+
+    getHandler(gatewayType: GatewayKey): IWebhookHandler {
+        const handler = this.handlers.get(gatewayType);
+        if (!handler) {
+            throw new WebhookRejectedError(404, `No webhook handler for ${gatewayType}`);
+        }
+        return handler;
+    }
+
+    /** Entry point for the callback endpoint of a gateway, headers are expected in lower case. */
+    handle(gatewayType: GatewayKey, rawBody: string, headers: Record<string, string | undefined>): IResponse {
+        try {
+            const callback = this.getHandler(gatewayType).verify(rawBody, headers);
+            return { data: this.apply(gatewayType, callback), statusCode: 200 };
+        } catch (error) {
+            if (error instanceof WebhookRejectedError) {
+                this.log(LOG_LEVEL.WARN, `${gatewayType} :: rejected :: ${error.message}`, { gatewayType, statusCode: error.statusCode });
+                return { data: { error: error.message }, statusCode: error.statusCode };
+            }
+            throw error;
+        }
+    }
+
+    private apply(gatewayType: GatewayKey, callback: IGatewayCallback): object {
+        const { eventId, paymentReqId, status, occurredAt } = callback;
+        if (this.processedEventIds.has(`${gatewayType}:${eventId}`)) {
+            this.log(LOG_LEVEL.INFO, `${gatewayType} :: duplicate ${eventId}`, { gatewayType, eventId, paymentReqId });
+            return { paymentReqId, status, duplicate: true };
+        }
+        const ageInMs = this.clock.now().getTime() - occurredAt.getTime();
+        if (ageInMs > this.maxEventAgeInSeconds * 1000) {
+            throw new WebhookRejectedError(409, `Callback ${eventId} from ${occurredAt.toISOString()} is too old`);
+        }
+        if (-ageInMs > this.maxClockSkewInSeconds * 1000) {
+            throw new WebhookRejectedError(409, `Callback ${eventId} from ${occurredAt.toISOString()} is in the future`);
+        }
+
+        const paymentReqController = PaymentReqController.getInstance();
+        const paymentReq = paymentReqController.get(paymentReqId);
+        if (!paymentReq) {
+            throw new WebhookRejectedError(404, `Payment ${paymentReqId} not found`);
+        }
+        const { gatewayReference } = paymentReq.getDetails;
+        if (paymentReq.getProcessingGatewayType() !== gatewayType || (gatewayReference && gatewayReference !== callback.gatewayReference)) {
+            throw new WebhookRejectedError(409, `Callback ${eventId} doesn't belong to payment ${paymentReqId}`);
+        }
+        const lastCallbackAt = this.lastCallbackAt.get(paymentReqId);
+        if (lastCallbackAt && occurredAt <= lastCallbackAt) {
+            throw new WebhookRejectedError(409, `Callback ${eventId} is older than the last one applied to ${paymentReqId}`);
+        }
+
+        // the same outcome can come again under another event id, nothing left to do then
+        if (paymentReq.getStatus() !== status) {
+            if (!paymentReq.canTransitionTo(status)) {
+                throw new WebhookRejectedError(409, `Payment ${paymentReqId} is ${paymentReq.getStatus()} and can't become ${status}`);
+            }
+            if (status === PAYMENT_STATUS.CONFIRMED) {
+                paymentReq.transitionTo(PAYMENT_STATUS.CONFIRMED, `callback ${eventId}`);
+                Ledger.getInstance().capture(paymentReq);
+                EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED, paymentReqId, gatewayType, gatewayReference: callback.gatewayReference });
+            } else {
+                const reason = callback.reason ?? `callback ${eventId}`;
+                Ledger.getInstance().releaseHold(paymentReq);
+                paymentReq.transitionTo(PAYMENT_STATUS.FAILED, reason);
+                EventBus.getInstance().publish({ type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId, reason });
+            }
+            paymentReqController.save(paymentReq);
+        }
+        this.processedEventIds.add(`${gatewayType}:${eventId}`);
+        this.lastCallbackAt.set(paymentReqId, occurredAt);
+        this.log(LOG_LEVEL.INFO, `${gatewayType} :: ${paymentReqId} is ${paymentReq.getStatus()}`, { gatewayType, eventId, paymentReqId });
+        return { paymentReqId, status: paymentReq.getStatus(), duplicate: false };
+    }
+
+    private log(level: LOG_LEVEL, message: string, fields: object) {
+        EventBus.getInstance().getLogger().log(level, `WebhookController :: ${message}`, fields);
+    }
+}
+
+interface IPaytmCallbackPayload {
+    ORDERID: string;
+    TXNID: string;
+    STATUS: string;
+    TXNDATE: string;
+    RESPMSG?: string;
+}
+
+/** Paytm posts its transaction status with our payment id as ORDERID. */
+class PaytmWebhookHandler extends IWebhookHandler {
+    readonly signatureHeader = "x-paytm-signature";
+
+    parse(body: unknown): IGatewayCallback {
+        const payload = this.require<IPaytmCallbackPayload>(body, ["ORDERID", "TXNID", "STATUS", "TXNDATE"], ["RESPMSG"]);
+        if (payload.STATUS !== "TXN_SUCCESS" && payload.STATUS !== "TXN_FAILURE") {
+            throw new WebhookRejectedError(400, `Unknown Paytm status ${payload.STATUS}`);
+        }
+        return {
+            eventId: `${payload.TXNID}:${payload.STATUS}`,
+            paymentReqId: payload.ORDERID,
+            gatewayReference: payload.TXNID,
+            status: payload.STATUS === "TXN_SUCCESS" ? PAYMENT_STATUS.CONFIRMED : PAYMENT_STATUS.FAILED,
+            occurredAt: this.parseDate(payload.TXNDATE, "TXNDATE"),
+            reason: payload.RESPMSG,
+        };
+    }
+}
+
+WebhookController.getInstance().register(
+    GATEWAY_TYPE.PAYTM,
+    new PaytmWebhookHandler(PaymentGatewayRegistry.getInstance().get(GATEWAY_TYPE.PAYTM).config.webhookSecret)
+);
+
+interface IGPayCallbackPayload {
+    eventId: string;
+    merchantTransactionId: string;
+    paymentId: string;
+    state: string;
+    eventTime: string;
+    failureReason?: string;
+}
+
+/** GPay sends one event per state change with our payment id as merchantTransactionId. */
+class GPayWebhookHandler extends IWebhookHandler {
+    readonly signatureHeader = "x-gpay-signature";
+
+    parse(body: unknown): IGatewayCallback {
+        const payload = this.require<IGPayCallbackPayload>(body, ["eventId", "merchantTransactionId", "paymentId", "state", "eventTime"], ["failureReason"]);
+        if (payload.state !== "SUCCESS" && payload.state !== "FAILED") {
+            throw new WebhookRejectedError(400, `Unknown GPay state ${payload.state}`);
+        }
+        return {
+            eventId: payload.eventId,
+            paymentReqId: payload.merchantTransactionId,
+            gatewayReference: payload.paymentId,
+            status: payload.state === "SUCCESS" ? PAYMENT_STATUS.CONFIRMED : PAYMENT_STATUS.FAILED,
+            occurredAt: this.parseDate(payload.eventTime, "eventTime"),
+            reason: payload.failureReason,
+        };
+    }
+}
+
+WebhookController.getInstance().register(
+    GATEWAY_TYPE.GPAY,
+    new GPayWebhookHandler(PaymentGatewayRegistry.getInstance().get(GATEWAY_TYPE.GPAY).config.webhookSecret)
+);
+
+/** Minimal RFC 4180 reader, enough for gateway settlement files: quoted fields, "" escapes and CRLF. */
+class CsvParser {
+    static parse(content: string): Record<string, string>[] {
+        const [header, ...rows] = CsvParser.parseRows(content).filter(row => row.some(cell => cell.trim() !== ""));
+        if (!header) {
+            return [];
+        }
+        const columns = header.map(column => column.trim());
+        return rows.map(row => {
+            const record: Record<string, string> = {};
+            columns.forEach((column, index) => record[column] = (row[index] ?? "").trim());
+            return record;
+        });
+    }
+
+    private static parseRows(content: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = "";
+        let quoted = false;
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            if (quoted) {
+                if (char === '"' && content[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    cell += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ",") {
+                row.push(cell);
+                cell = "";
+            } else if (char === "\n") {
+                rows.push([...row, cell.replace(/\r$/, "")]);
+                row = [];
+                cell = "";
+            } else {
+                cell += char;
+            }
+        }
+        rows.push([...row, cell]);
+        return rows;
+    }
+}
+
+/** One line of a settlement file in our terms. */
+interface ISettlementLine {
+    lineNumber: number; // 1 based, the header is line 1
+    paymentReqId: string;
+    gatewayReference: string;
+    amount: Money;
+    settledAt: Date;
+}
+
+/** Every gateway exports its settlement file with its own columns, a parser maps them to ISettlementLine. */
+abstract class ISettlementFileParser {
+    abstract readonly columns: string[];
+    protected abstract toLine(record: Record<string, string>, lineNumber: number): ISettlementLine;
+
+    parse(content: string): ISettlementLine[] {
+        const records = CsvParser.parse(content);
+        return records.map((record, index) => {
+            const lineNumber = index + 2;
+            const missing = this.columns.filter(column => !record[column]);
+            if (missing.length) {
+                throw new Error(`Settlement line ${lineNumber} is missing ${missing.join(", ")}`);
+            }
+            return this.toLine(record, lineNumber);
+        });
+    }
+
+    protected parseAmount(value: string, currency: string, lineNumber: number): Money {
+        const amount = Number(value);
+        if (!Number.isFinite(amount)) {
+            throw new Error(`Settlement line ${lineNumber} has an invalid amount ${value}`);
+        }
+        return Money.of(amount, currency);
+    }
+
+    protected parseDate(value: string, lineNumber: number): Date {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new Error(`Settlement line ${lineNumber} has an invalid date ${value}`);
+        }
+        return date;
+    }
+}
+
+class PaytmSettlementFileParser extends ISettlementFileParser {
+    readonly columns = ["ORDERID", "TXNID", "TXNAMOUNT", "CURRENCY", "SETTLEDDATE"];
+
+    protected toLine(record: Record<string, string>, lineNumber: number): ISettlementLine {
+        return {
+            lineNumber,
+            paymentReqId: record.ORDERID,
+            gatewayReference: record.TXNID,
+            amount: this.parseAmount(record.TXNAMOUNT, record.CURRENCY, lineNumber),
+            settledAt: this.parseDate(record.SETTLEDDATE, lineNumber),
+        };
+    }
+}
+
+class GPaySettlementFileParser extends ISettlementFileParser {
+    readonly columns = ["merchantTransactionId", "paymentId", "amount", "currency", "settlementDate"];
+
+    protected toLine(record: Record<string, string>, lineNumber: number): ISettlementLine {
+        return {
+            lineNumber,
+            paymentReqId: record.merchantTransactionId,
+            gatewayReference: record.paymentId,
+            amount: this.parseAmount(record.amount, record.currency, lineNumber),
+            settledAt: this.parseDate(record.settlementDate, lineNumber),
+        };
+    }
+}
+
+enum RECONCILIATION_STATUS {
+    MATCHED = "MATCHED",
+    MISSING_ON_OUR_SIDE = "MISSING_ON_OUR_SIDE", // settled by the gateway, but we have no captured payment for it
+    MISSING_ON_GATEWAY = "MISSING_ON_GATEWAY", // captured by us, but not in the settlement file
+    AMOUNT_MISMATCH = "AMOUNT_MISMATCH",
+    REFERENCE_MISMATCH = "REFERENCE_MISMATCH", // same amount, but the gateway settled it under another transaction id
+    DUPLICATE_SETTLEMENT = "DUPLICATE_SETTLEMENT", // a second line for a payment the file already settled
+}
+
+interface IReconciliationRow {
+    status: RECONCILIATION_STATUS;
+    paymentReqId: string;
+    gatewayReference?: string;
+    ourAmount?: Money;
+    gatewayAmount?: Money;
+    settledAt?: Date;
+    lineNumber?: number;
+    note?: string;
+}
+
+interface IDailySettlementTotal {
+    date: string; // YYYY-MM-DD of settledAt, in UTC like the gateways' settlement days
+    gatewayType: GatewayKey;
+    count: number;
+    total: Money;
+}
+
+interface IReconciliationReport {
+    gatewayType: GatewayKey;
+    from: Date;
+    to: Date;
+    rows: IReconciliationRow[];
+    summary: Record<RECONCILIATION_STATUS, number>;
+    discrepancies: number; // every row that isn't MATCHED
+    dailyTotals: IDailySettlementTotal[];
+}
+
+/** Payments for which the gateway owes us a settlement line. */
+const SETTLED_STATUSES = [PAYMENT_STATUS.CONFIRMED, PAYMENT_STATUS.PARTIALLY_REFUNDED, PAYMENT_STATUS.REFUNDED];
+
+/**
+ * Matches a gateway settlement file against the payments we captured through
+ * that gateway between from and to. Amounts are compared gross, as captured,
+ * refunds show up in the gateway's refund file and not here.
+ */
+class ReconciliationService {
+    private static instance: ReconciliationService;
+    private parsers: Map<GatewayKey, ISettlementFileParser> = new Map();
+
+    static getInstance(): ReconciliationService {
+        if (!ReconciliationService.instance) {
+            ReconciliationService.instance = new ReconciliationService();
+        }
+        return ReconciliationService.instance;
+    }
+
+    register(gatewayType: GatewayKey, parser: ISettlementFileParser) {
+        this.parsers.set(gatewayType, parser);
+    }
+
+    reconcileFile(gatewayType: GatewayKey, filePath: string, from: Date, to: Date): IReconciliationReport {
+        return this.reconcile(gatewayType, fs.readFileSync(filePath, "utf8"), from, to);
+    }
+
+    reconcile(gatewayType: GatewayKey, content: string, from: Date, to: Date): IReconciliationReport {
+        const parser = this.parsers.get(gatewayType);
+        if (!parser) {
+            throw new Error(`No settlement file parser for ${gatewayType}`);
+        }
+        const lines = parser.parse(content);
+        const paymentReqController = PaymentReqController.getInstance();
+        const expected = paymentReqController.query({ from, to })
+            .filter(paymentReq => paymentReq.getProcessingGatewayType() === gatewayType && SETTLED_STATUSES.includes(paymentReq.getStatus()));
+
+        const rows: IReconciliationRow[] = [];
+        const seen: Map<string, number> = new Map(); // payment id -> line that settled it first
+        for (const line of lines) {
+            const { paymentReqId, gatewayReference, amount: gatewayAmount, settledAt, lineNumber } = line;
+            const row: IReconciliationRow = { status: RECONCILIATION_STATUS.MATCHED, paymentReqId, gatewayReference, gatewayAmount, settledAt, lineNumber };
+            const firstLineNumber = seen.get(paymentReqId);
+            if (firstLineNumber !== undefined) {
+                rows.push({ ...row, status: RECONCILIATION_STATUS.DUPLICATE_SETTLEMENT, note: `already settled on line ${firstLineNumber}` });
+                continue;
+            }
+            seen.set(paymentReqId, lineNumber);
+            const paymentReq = paymentReqController.get(paymentReqId);
+            if (!paymentReq) {
+                rows.push({ ...row, status: RECONCILIATION_STATUS.MISSING_ON_OUR_SIDE, note: "unknown payment" });
+                continue;
+            }
+            const ourAmount = paymentReq.getDetails.amount;
+            if (paymentReq.getProcessingGatewayType() !== gatewayType || !SETTLED_STATUSES.includes(paymentReq.getStatus())) {
+                const note = `we have it as ${paymentReq.getStatus()} on ${paymentReq.getProcessingGatewayType()}`;
+                rows.push({ ...row, ourAmount, status: RECONCILIATION_STATUS.MISSING_ON_OUR_SIDE, note });
+                continue;
+            }
+            const ourReference = paymentReq.getDetails.gatewayReference;
+            const referenceDiffers = !!ourReference && ourReference !== gatewayReference;
+            const note = referenceDiffers ? `our gateway reference is ${ourReference}` : undefined;
+            let status = RECONCILIATION_STATUS.MATCHED;
+            if (!gatewayAmount.equals(ourAmount)) {
+                status = RECONCILIATION_STATUS.AMOUNT_MISMATCH;
+            } else if (referenceDiffers) {
+                status = RECONCILIATION_STATUS.REFERENCE_MISMATCH;
+            }
+            rows.push({ ...row, ourAmount, status, note });
+        }
+        for (const paymentReq of expected) {
+            const { id, gatewayReference, amount } = paymentReq.getDetails;
+            if (!seen.has(id)) {
+                rows.push({ status: RECONCILIATION_STATUS.MISSING_ON_GATEWAY, paymentReqId: id, gatewayReference, ourAmount: amount });
+            }
+        }
+
+        const summary = {} as Record<RECONCILIATION_STATUS, number>;
+        [RECONCILIATION_STATUS.MATCHED, RECONCILIATION_STATUS.MISSING_ON_OUR_SIDE, RECONCILIATION_STATUS.MISSING_ON_GATEWAY, RECONCILIATION_STATUS.AMOUNT_MISMATCH,
+            RECONCILIATION_STATUS.REFERENCE_MISMATCH, RECONCILIATION_STATUS.DUPLICATE_SETTLEMENT]
+            .forEach(status => summary[status] = rows.filter(row => row.status === status).length);
+        const discrepancies = rows.length - summary[RECONCILIATION_STATUS.MATCHED];
+        return { gatewayType, from, to, rows, summary, discrepancies, dailyTotals: this.getDailyTotals(gatewayType, lines) };
+    }
+
+    /** What the gateway says it paid out per day and currency, straight from the file. */
+    private getDailyTotals(gatewayType: GatewayKey, lines: ISettlementLine[]): IDailySettlementTotal[] {
+        const totals: Map<string, IDailySettlementTotal> = new Map();
+        for (const line of lines) {
+            const { settledAt, amount } = line;
+            const date = settledAt.toISOString().slice(0, 10);
+            const key = `${date}:${amount.getCurrency()}`;
+            const total = totals.get(key) ?? { date, gatewayType, count: 0, total: Money.zero(amount.getCurrency()) };
+            totals.set(key, { ...total, count: total.count + 1, total: total.total.add(amount) });
+        }
+        return Array.from(totals.values()).sort((a, b) => a.date.localeCompare(b.date));
+    }
+}
+
+ReconciliationService.getInstance().register(GATEWAY_TYPE.PAYTM, new PaytmSettlementFileParser());
+ReconciliationService.getInstance().register(GATEWAY_TYPE.GPAY, new GPaySettlementFileParser());
+
+enum BILLING_FREQUENCY {
+    SECONDS = "SECONDS", // only meant for demos
+    DAILY = "DAILY",
+    WEEKLY = "WEEKLY",
+    MONTHLY = "MONTHLY", // same day of month as the start date
+    MONTHLY_ON_DAY = "MONTHLY_ON_DAY", // on dayOfMonth, clamped to the last day of shorter months
+}
+
+interface IBillingFrequency {
+    type: BILLING_FREQUENCY;
+    interval?: number; // every N seconds/days/weeks/months, defaults to 1
+    dayOfMonth?: number; // required for MONTHLY_ON_DAY
+}
+
+/** What to do with billings that fell due while the cron wasn't running. */
+enum CATCH_UP_POLICY {
+    BILL_ALL = "BILL_ALL",
+    BILL_LATEST = "BILL_LATEST",
+    SKIP = "SKIP",
+}
+
+enum SCHEDULER_JOB_STATUS {
+    ACTIVE = "ACTIVE",
+    PAST_DUE = "PAST_DUE", // last billing failed, waiting for the next dunning retry
+    SUSPENDED = "SUSPENDED", // dunning gave up, only resume() bills again
+    PAUSED = "PAUSED",
+    CANCELLED = "CANCELLED",
+    COMPLETED = "COMPLETED",
+}
+
+/**
+ * How a failed billing is chased. The n-th failure is retried
+ * retryDelaysInSeconds[n - 1] after it happened, and the job is suspended
+ * once it failed suspendAfterFailures times or the delays ran out.
+ */
+interface IDunningPolicy {
+    retryDelaysInSeconds: number[];
+    suspendAfterFailures: number;
+}
+
+const DEFAULT_DUNNING_POLICY: IDunningPolicy = {
+    retryDelaysInSeconds: [1, 3, 7].map(days => days * 24 * 60 * 60),
+    suspendAfterFailures: 4,
+};
+
+enum BILLING_OUTCOME {
+    SUCCEEDED = "SUCCEEDED",
+    FAILED = "FAILED",
+    PENDING = "PENDING", // the gateway answered 202, its callback settles the billing later
+}
+
+interface IBillingAttempt {
+    billingDate: Date; // the scheduled date this attempt pays for
+    attemptedAt: Date;
+    attempt: number; // 1 for the scheduled run, 2+ for dunning retries
+    outcome: BILLING_OUTCOME;
+    amount: Money;
+    paymentReqId?: string;
+    error?: string;
+}
+
+interface IPendingRetry {
+    billingDate: Date;
+    failures: number;
+    retryAt: Date;
+}
+
+/** A billing whose payment hasn't settled yet, the job bills nothing else until it has. */
+interface IPendingBilling {
+    billingDate: Date;
+    paymentReqId: string;
+}
+
+/**
+ * Every billing date is computed from the start date and the billing number,
+ * never from the previous date or from now, so schedules don't drift and a
+ * job started on the 31st keeps billing on the last day of shorter months.
+ */
+class BillingCalendar {
+    static occurrence(frequency: IBillingFrequency, startDate: Date, n: number): Date {
+        const interval = frequency.interval ?? 1;
+        if (!Number.isInteger(interval) || interval < 1) {
+            throw new Error(`Billing interval must be a positive whole number, got ${interval}`);
+        }
+        switch (frequency.type) {
+            case BILLING_FREQUENCY.SECONDS:
+                return new Date(startDate.getTime() + n * interval * 1000);
+            case BILLING_FREQUENCY.DAILY:
+                return BillingCalendar.addDays(startDate, n * interval);
+            case BILLING_FREQUENCY.WEEKLY:
+                return BillingCalendar.addDays(startDate, n * interval * 7);
+            case BILLING_FREQUENCY.MONTHLY:
+                return BillingCalendar.addMonths(startDate, n * interval, startDate.getDate());
+            case BILLING_FREQUENCY.MONTHLY_ON_DAY: {
+                const dayOfMonth = frequency.dayOfMonth;
+                if (!dayOfMonth || dayOfMonth < 1 || dayOfMonth > 31) {
+                    throw new Error(`MONTHLY_ON_DAY needs a dayOfMonth between 1 and 31, got ${dayOfMonth}`);
+                }
+                // the first billing is the first dayOfMonth on or after the start date
+                const first = BillingCalendar.addMonths(startDate, 0, dayOfMonth);
+                const offset = first < startDate ? 1 : 0;
+                return BillingCalendar.addMonths(startDate, offset + n * interval, dayOfMonth);
+            }
+            default:
+                throw new Error(`Unknown billing frequency ${frequency.type}`);
+        }
+    }
+
+    static addDays(date: Date, days: number): Date {
+        const result = new Date(date.getTime());
+        result.setDate(result.getDate() + days);
+        return result;
+    }
+
+    /** Keeps the time of day of date and clamps dayOfMonth to the length of the target month. */
+    static addMonths(date: Date, months: number, dayOfMonth: number): Date {
+        const result = new Date(date.getTime());
+        result.setDate(1);
+        result.setMonth(result.getMonth() + months);
+        const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+        result.setDate(Math.min(dayOfMonth, daysInMonth));
+        return result;
+    }
+}
+
+interface ISchedulerJobDetails {
+    id: string;
+    fromUserId: string;
+    toUserId: string;
+    startDate: Date;
+    endDate: Date;
+    gatewayType: GatewayKey;
+    frequency: IBillingFrequency;
+    amount: Money;
+    catchUpPolicy: CATCH_UP_POLICY;
+    status: SCHEDULER_JOB_STATUS;
+    billingCount: number;
+    lastBilledAt?: Date;
+    nextBillingDate: Date;
+    dunningPolicy: IDunningPolicy;
+    pendingRetry?: IPendingRetry;
+    pendingBilling?: IPendingBilling;
+}
+
+class ISchedulerJob {
+    private status: SCHEDULER_JOB_STATUS = SCHEDULER_JOB_STATUS.ACTIVE;
+    private billingCount: number = 0; // index of the next billing occurrence
+    private lastBilledAt?: Date;
+    private pendingRetry?: IPendingRetry;
+    private pendingBilling?: IPendingBilling;
+    private billingHistory: IBillingAttempt[] = [];
+    constructor(
+        private id: string,
+        private fromUserId: string,
+        private toUserId: string,
+        private startDate: Date,
+        private endDate: Date,
+        private gatewayType: GatewayKey,
+        private frequency: IBillingFrequency,
+        private amount: Money,
+        private catchUpPolicy: CATCH_UP_POLICY = CATCH_UP_POLICY.BILL_ALL,
+        private dunningPolicy: IDunningPolicy = DEFAULT_DUNNING_POLICY,
+    ) {
+        this.completeIfPastEnd();
+    }
+
+    getNextBillingDate(): Date {
+        return BillingCalendar.occurrence(this.frequency, this.startDate, this.billingCount);
+    }
+
+    /**
+     * Billing dates that are due at now, oldest first. More than one date
+     * means the cron missed some runs and the catch up policy decides which
+     * of them are still charged, the others are skipped right away.
+     */
+    collectDueBillingDates(now: Date): Date[] {
+        if (this.pendingBilling) {
+            return [];
+        }
+        if (this.status === SCHEDULER_JOB_STATUS.PAST_DUE && this.pendingRetry) {
+            // the schedule waits until the failed billing is paid
+            return this.pendingRetry.retryAt <= now ? [this.pendingRetry.billingDate] : [];
+        }
+        if (this.status !== SCHEDULER_JOB_STATUS.ACTIVE) {
+            return [];
+        }
+        const due: Date[] = [];
+        for (let n = this.billingCount; ; n++) {
+            const date = BillingCalendar.occurrence(this.frequency, this.startDate, n);
+            if (date > now || date > this.endDate) {
+                break;
+            }
+            due.push(date);
+        }
+        if (due.length <= 1 || this.catchUpPolicy === CATCH_UP_POLICY.BILL_ALL) {
+            return due;
+        }
+        const billed = this.catchUpPolicy === CATCH_UP_POLICY.BILL_LATEST ? [due[due.length - 1]] : [];
+        this.billingCount += due.length - billed.length;
+        console.log(`Scheduler job ${this.id} :: skipped ${due.length - billed.length} missed billing(s)`);
+        return billed;
+    }
+
+    recordBillingSuccess(billingDate: Date, paymentReq: PaymentReq, now: Date = new Date()) {
+        this.billingHistory.push({
+            billingDate,
+            attemptedAt: now,
+            attempt: (this.pendingRetry?.failures ?? 0) + 1,
+            outcome: BILLING_OUTCOME.SUCCEEDED,
+            amount: this.amount,
+            paymentReqId: paymentReq.getDetails.id,
+        });
+        this.pendingRetry = undefined;
+        if (this.status === SCHEDULER_JOB_STATUS.PAST_DUE) {
+            this.status = SCHEDULER_JOB_STATUS.ACTIVE;
+        }
+        this.scheduleNextBilling();
+    }
+
+    recordBillingPending(billingDate: Date, paymentReq: PaymentReq, now: Date = new Date()) {
+        this.billingHistory.push({
+            billingDate,
+            attemptedAt: now,
+            attempt: (this.pendingRetry?.failures ?? 0) + 1,
+            outcome: BILLING_OUTCOME.PENDING,
+            amount: this.amount,
+            paymentReqId: paymentReq.getDetails.id,
+        });
+        this.pendingBilling = { billingDate, paymentReqId: paymentReq.getDetails.id };
+        console.log(`Scheduler job ${this.id} :: waiting for payment ${paymentReq.getDetails.id} to settle`);
+    }
+
+    /**
+     * Records the outcome of the pending billing once its payment is
+     * CONFIRMED or FAILED. Returns false while the payment is still on its
+     * way or when it isn't the one the job waits for.
+     */
+    settlePendingBilling(paymentReq: PaymentReq, now: Date = new Date()): boolean {
+        const pendingBilling = this.pendingBilling;
+        if (!pendingBilling || pendingBilling.paymentReqId !== paymentReq.getDetails.id) {
+            return false;
+        }
+        if (paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED) {
+            this.pendingBilling = undefined;
+            this.recordBillingSuccess(pendingBilling.billingDate, paymentReq, now);
+            return true;
+        }
+        if (paymentReq.getStatus() === PAYMENT_STATUS.FAILED) {
+            this.pendingBilling = undefined;
+            const [lastTransition] = paymentReq.getStatusHistory().slice(-1);
+            this.recordBillingFailure(pendingBilling.billingDate, new Error(lastTransition.reason ?? "payment failed"), paymentReq, now);
+            return true;
+        }
+        return false;
+    }
+
+    recordBillingFailure(billingDate: Date, error: Error, paymentReq?: PaymentReq, now: Date = new Date()) {
+        const failures = (this.pendingRetry?.failures ?? 0) + 1;
+        this.billingHistory.push({
+            billingDate,
+            attemptedAt: now,
+            attempt: failures,
+            outcome: BILLING_OUTCOME.FAILED,
+            amount: this.amount,
+            paymentReqId: paymentReq?.getDetails.id,
+            error: error.message,
+        });
+
+        const retryDelayInSeconds = this.dunningPolicy.retryDelaysInSeconds[failures - 1];
+        if (failures >= this.dunningPolicy.suspendAfterFailures || retryDelayInSeconds === undefined) {
+            this.pendingRetry = undefined;
+            this.status = SCHEDULER_JOB_STATUS.SUSPENDED;
+            console.log(`Scheduler job ${this.id} :: suspended after ${failures} failed billing(s)`);
+            return;
+        }
+        this.pendingRetry = {
+            billingDate,
+            failures,
+            retryAt: new Date(now.getTime() + retryDelayInSeconds * 1000),
+        };
+        this.status = SCHEDULER_JOB_STATUS.PAST_DUE;
+        console.log(`Scheduler job ${this.id} :: past due, retrying at ${this.pendingRetry.retryAt.toLocaleString()}`);
+    }
+
+    getBillingHistory(): IBillingAttempt[] {
+        return [...this.billingHistory];
+    }
+
+    scheduleNextBilling() {
+        this.lastBilledAt = this.getNextBillingDate();
+        this.billingCount++;
+        if (this.completeIfPastEnd()) {
+            console.log("Scheduler Job ends for this user.")
+            return;
+        }
+        console.log(`Next billing scheduled for ${this.getNextBillingDate().toLocaleString()}`);
+    }
+
+    pause() {
+        this.assertStatus(SCHEDULER_JOB_STATUS.ACTIVE, "pause");
+        this.status = SCHEDULER_JOB_STATUS.PAUSED;
+    }
+
+    /**
+     * Billings that fell due while the job was paused are never charged. A
+     * suspended job instead bills the outstanding billing on the next run.
+     */
+    resume(now: Date = new Date()) {
+        if (this.status === SCHEDULER_JOB_STATUS.SUSPENDED) {
+            this.status = SCHEDULER_JOB_STATUS.ACTIVE;
+            return;
+        }
+        this.assertStatus(SCHEDULER_JOB_STATUS.PAUSED, "resume");
+        while (this.getNextBillingDate() < now) {
+            this.billingCount++;
+        }
+        this.status = SCHEDULER_JOB_STATUS.ACTIVE;
+        this.completeIfPastEnd();
+    }
+
+    cancel() {
+        if (this.status === SCHEDULER_JOB_STATUS.CANCELLED || this.status === SCHEDULER_JOB_STATUS.COMPLETED) {
+            throw new Error(`Scheduler job ${this.id} is already ${this.status}`);
+        }
+        this.status = SCHEDULER_JOB_STATUS.CANCELLED;
+        this.pendingRetry = undefined;
+    }
+
+    public getDetails(): ISchedulerJobDetails {
+        return {
+            id: this.id,
+            fromUserId: this.fromUserId,
+            toUserId: this.toUserId,
+            startDate: this.startDate,
+            endDate: this.endDate,
+            gatewayType: this.gatewayType,
+            frequency: this.frequency,
+            amount: this.amount,
+            catchUpPolicy: this.catchUpPolicy,
+            status: this.status,
+            billingCount: this.billingCount,
+            lastBilledAt: this.lastBilledAt,
+            nextBillingDate: this.getNextBillingDate(),
+            dunningPolicy: this.dunningPolicy,
+            pendingRetry: this.pendingRetry,
+            pendingBilling: this.pendingBilling,
+        }   
+    }
+
+    private assertStatus(status: SCHEDULER_JOB_STATUS, action: string) {
+        if (this.status !== status) {
+            throw new Error(`Can't ${action} scheduler job ${this.id}, it is ${this.status}`);
+        }
+    }
+
+    private completeIfPastEnd(): boolean {
+        if (this.status === SCHEDULER_JOB_STATUS.ACTIVE && this.getNextBillingDate() > this.endDate) {
+            this.status = SCHEDULER_JOB_STATUS.COMPLETED;
+            return true;
+        }
+        return false;
+    }
+
+    toRecord(): object {
+        return {
+            ...this.getDetails(),
+            amount: this.amount.toRecord(),
+            billingHistory: this.billingHistory.map(attempt => ({ ...attempt, amount: attempt.amount.toRecord() })),
+        };
+    }
+
+    static fromRecord(record: unknown): ISchedulerJob {
+        const reader = RecordReader.of(record, "schedulerJob");
+        const frequency = reader.object("frequency");
+        const dunningPolicy = reader.object("dunningPolicy");
+        const job = new ISchedulerJob(
+            reader.string("id"),
+            reader.string("fromUserId"),
+            reader.string("toUserId"),
+            reader.date("startDate"),
+            reader.date("endDate"),
+            reader.string("gatewayType"),
+            {
+                type: frequency.oneOf("type", BILLING_FREQUENCY),
+                interval: frequency.has("interval") ? frequency.number("interval") : undefined,
+                dayOfMonth: frequency.has("dayOfMonth") ? frequency.number("dayOfMonth") : undefined,
+            },
+            reader.money("amount"),
+            reader.oneOf("catchUpPolicy", CATCH_UP_POLICY),
+            {
+                retryDelaysInSeconds: dunningPolicy.numbers("retryDelaysInSeconds"),
+                suspendAfterFailures: dunningPolicy.number("suspendAfterFailures"),
+            }
+        );
+        job.status = reader.oneOf("status", SCHEDULER_JOB_STATUS);
+        job.billingCount = reader.number("billingCount");
+        job.lastBilledAt = reader.optionalDate("lastBilledAt");
+        const pendingRetry = reader.optionalObject("pendingRetry");
+        job.pendingRetry = pendingRetry && {
+            billingDate: pendingRetry.date("billingDate"),
+            failures: pendingRetry.number("failures"),
+            retryAt: pendingRetry.date("retryAt"),
+        };
+        const pendingBilling = reader.optionalObject("pendingBilling");
+        job.pendingBilling = pendingBilling && {
+            billingDate: pendingBilling.date("billingDate"),
+            paymentReqId: pendingBilling.string("paymentReqId"),
+        };
+        job.billingHistory = reader.objects("billingHistory").map(attempt => ({
+            billingDate: attempt.date("billingDate"),
+            attemptedAt: attempt.date("attemptedAt"),
+            attempt: attempt.number("attempt"),
+            outcome: attempt.oneOf("outcome", BILLING_OUTCOME),
+            amount: attempt.money("amount"),
+            paymentReqId: attempt.optionalString("paymentReqId"),
+            error: attempt.optionalString("error"),
+        }));
+        return job;
+    }
+}
+
+const SCHEDULER_JOB_MAPPER: IRecordMapper<ISchedulerJob> = {
+    getId: job => job.getDetails().id,
+    toRecord: job => job.toRecord(),
+    fromRecord: ISchedulerJob.fromRecord,
+};
+
+/** Matches jobs whose start to end date range overlaps from/to. */
+interface ISchedulerJobQuery {
+    userId?: string; // payer or payee
+    status?: SCHEDULER_JOB_STATUS;
+    from?: Date;
+    to?: Date;
+}
+
+class SchedulerController {
+    private schedulerJobs: IRepository<ISchedulerJob> = new InMemoryRepository(SCHEDULER_JOB_MAPPER.getId);
+    private static instance: SchedulerController;
+    constructor() {}
+    static getInstance(): SchedulerController {
+        if (!SchedulerController.instance) {
+            SchedulerController.instance = new SchedulerController();
+        }
+        return SchedulerController.instance;
+    }
+
+    useRepository(schedulerJobs: IRepository<ISchedulerJob>) {
+        this.schedulerJobs = schedulerJobs;
+    }
+
+    createSchedulerJob(
+        fromUserId: string,
+        toUserId: string,
+        startDate: Date,
+        endDate: Date,
+        gatewayType: GatewayKey,
+        frequency: IBillingFrequency,
+        amount: Money,
+        catchUpPolicy?: CATCH_UP_POLICY,
+        dunningPolicy?: IDunningPolicy
+    ) {
+        if (!amount.isPositive()) {
+            throw new Error(`Scheduler job amount must be positive, got ${amount}`);
+        }
+        const jobId = IDGenerator.generate();
+        const newSchedulerJob = new ISchedulerJob(
+            jobId,
+            fromUserId,
+            toUserId,
+            startDate,
+            endDate,
+            gatewayType,
+            frequency,
+            amount,
+            catchUpPolicy,
+            dunningPolicy
+        );
+        
+        this.schedulerJobs.save(newSchedulerJob);
+        console.log(`Scheduler job created with ID: ${jobId}`);
+        return jobId;
+    }
+
+    getSchedulerJobs(): ISchedulerJob[] {
+        return this.schedulerJobs.findAll();
+    }
+
+    query(query: ISchedulerJobQuery): ISchedulerJob[] {
+        return this.schedulerJobs.find(job => {
+            const { fromUserId, toUserId, status, startDate, endDate } = job.getDetails();
+            if (query.userId && fromUserId !== query.userId && toUserId !== query.userId) {
+                return false;
+            }
+            if (query.status && status !== query.status) {
+                return false;
+            }
+            if (query.from && endDate < query.from) {
+                return false;
+            }
+            if (query.to && startDate > query.to) {
+                return false;
+            }
+            return true;
+        });
+    }
+
+    /** Persists the changes billing made to a job. */
+    save(job: ISchedulerJob) {
+        this.schedulerJobs.save(job);
+    }
+
+    findSchedulerJob(jobId: string): ISchedulerJob | undefined {
+        return this.schedulerJobs.findById(jobId);
+    }
+
+    getSchedulerJob(jobId: string): ISchedulerJob {
+        const job = this.findSchedulerJob(jobId);
+        if (!job) {
+            throw new Error(`Scheduler job ${jobId} not found`);
+        }
+        return job;
+    }
+
+    pauseSchedulerJob(jobId: string) {
+        const job = this.getSchedulerJob(jobId);
+        job.pause();
+        this.save(job);
+        console.log(`Scheduler job paused: ${jobId}`);
+    }
+
+    resumeSchedulerJob(jobId: string) {
+        const job = this.getSchedulerJob(jobId);
+        job.resume();
+        this.save(job);
+        console.log(`Scheduler job resumed: ${jobId}`);
+    }
+
+    cancelSchedulerJob(jobId: string) {
+        const job = this.getSchedulerJob(jobId);
+        job.cancel();
+        this.save(job);
+        console.log(`Scheduler job cancelled: ${jobId}`);
+    }
+
+    getBillingHistory(jobId: string): IBillingAttempt[] {
+        return this.getSchedulerJob(jobId).getBillingHistory();
+    }
+
+    /** Called when a payment settles, e.g. through a gateway callback, so the job waiting on it moves on. */
+    settlePendingBilling(paymentReqId: string, now: Date = new Date()) {
+        const [job] = this.schedulerJobs.find(candidate => candidate.getDetails().pendingBilling?.paymentReqId === paymentReqId);
+        const pendingBilling = job?.getDetails().pendingBilling;
+        const paymentReq = PaymentReqController.getInstance().get(paymentReqId);
+        if (!job || !pendingBilling || !paymentReq) {
+            return;
+        }
+        const { billingDate } = pendingBilling;
+        if (!job.settlePendingBilling(paymentReq, now)) {
+            return;
+        }
+        this.save(job);
+        const failed = paymentReq.getStatus() === PAYMENT_STATUS.FAILED;
+        EventBus.getInstance().publish({
+            type: PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN,
+            jobId: job.getDetails().id,
+            billingDate,
+            outcome: failed ? BILLING_OUTCOME.FAILED : BILLING_OUTCOME.SUCCEEDED,
+            paymentReqId,
+            error: failed ? job.getBillingHistory().slice(-1)[0].error : undefined,
+        });
+    }
+}
+
+EventBus.getInstance().subscribe(PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED, event => {
+    if (event.type === PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED) {
+        SchedulerController.getInstance().settlePendingBilling(event.paymentReqId);
+    }
+});
+EventBus.getInstance().subscribe(PAYMENT_EVENT_TYPE.PAYMENT_FAILED, event => {
+    if (event.type === PAYMENT_EVENT_TYPE.PAYMENT_FAILED) {
+        SchedulerController.getInstance().settlePendingBilling(event.paymentReqId);
+    }
+});
+
+/** In real instead of this class we would be using original cron service like aws cloudwatch scheduler 
+ * And scheduler job controller will be creating cron in that service. And scheduler job record will also be created
+ * at the same time but it would be to store data in DB. so that user can fetch info
+*/
+class SchedulerJobCron {
+    private static instance: SchedulerJobCron;
+    private intervalId: ReturnType<typeof setInterval> | null = null;
+    private isProcessing: boolean = false;
+    
+    constructor() {}
+    
+    static getInstance(): SchedulerJobCron {
+        if (!SchedulerJobCron.instance) {
+            SchedulerJobCron.instance = new SchedulerJobCron();
+        }
+        return SchedulerJobCron.instance;
+    }
+    
+    start() {
+        if (this.intervalId) {
+            this.log(LOG_LEVEL.INFO, "already running");
+            return;
+        }
+        
+        this.log(LOG_LEVEL.INFO, "started");
+        this.intervalId = setInterval(() => {
+            // a rejected run would otherwise be an unhandled rejection, the next tick simply tries again
+            this.processScheduledJobs().catch(error => this.log(LOG_LEVEL.ERROR, `run failed :: ${(error as Error).message}`));
+        }, 1000); // Check every second
+    }
+    
+    stop() {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+            this.log(LOG_LEVEL.INFO, "stopped");
+        }
+    }
+    
+    private async processScheduledJobs() {
+        // a slow gateway can make a run take longer than a tick, don't bill the same job twice
+        if (this.isProcessing) {
+            return;
+        }
+        this.isProcessing = true;
+        try {
+            await this.billDueJobs();
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    private async billDueJobs() {
+        const schedulerController = SchedulerController.getInstance();
+        const jobs = schedulerController.getSchedulerJobs();
+        const now = new Date();
+        
+        for (const job of jobs) {
+            const billingCountBefore = job.getDetails().billingCount;
+            await this.resumeApprovedBilling(job);
+            // more than one date when the cron was stopped for a while
+            const dueBillingDates = job.collectDueBillingDates(now);
+            for (const billingDate of dueBillingDates) {
+                const jobDetails = job.getDetails();
+                this.log(LOG_LEVEL.INFO, `processing ${jobDetails.fromUserId} -> ${jobDetails.toUserId} (due ${billingDate.toISOString()})`, jobDetails.id);
+                
+                // Create users for the scheduled payment
+                const fromUser = new PaymentUser(jobDetails.fromUserId);
+                const toUser = new PaymentUser(jobDetails.toUserId);
+                
+                let latestPaymentReq: PaymentReq | undefined;
+                let response: IResponse;
+                try {
+                    // Create payment request
+                    const paymentReqController = PaymentReqController.getInstance();
+                    latestPaymentReq = paymentReqController.create(fromUser, toUser, jobDetails.amount, jobDetails.gatewayType, "Scheduled payment");
+                    
+                    // Process the payment
+                    const paymentService = new PaymentService(jobDetails.gatewayType);
+                    response = await paymentService.processPayment(latestPaymentReq);
+                } catch (error) {
+                    if (latestPaymentReq && this.isUndecided(latestPaymentReq)) {
+                        this.log(LOG_LEVEL.WARN, `PENDING : ${jobDetails.fromUserId} -> ${jobDetails.toUserId} :: ${(error as Error).message}`, jobDetails.id);
+                        this.recordPending(job, billingDate, latestPaymentReq, now);
+                        break;
+                    }
+                    // hand it to dunning, later dates of this job wait until this one is paid
+                    this.log(LOG_LEVEL.ERROR, `FAILED : ${jobDetails.fromUserId} -> ${jobDetails.toUserId} :: ${(error as Error).message}`, jobDetails.id);
+                    job.recordBillingFailure(billingDate, error as Error, latestPaymentReq, now);
+                    EventBus.getInstance().publish({
+                        type: PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN,
+                        jobId: jobDetails.id,
+                        billingDate,
+                        outcome: BILLING_OUTCOME.FAILED,
+                        paymentReqId: latestPaymentReq?.getDetails.id,
+                        error: (error as Error).message,
+                    });
+                    break;
+                }
+                
+                if (response.statusCode === PENDING_CONFIRMATION_STATUS_CODE) {
+                    this.log(LOG_LEVEL.INFO, `PENDING : ${jobDetails.fromUserId} -> ${jobDetails.toUserId}`, jobDetails.id);
+                    this.recordPending(job, billingDate, latestPaymentReq, now);
+                    break;
+                }
+
+                // Schedule next billing
+                job.recordBillingSuccess(billingDate, latestPaymentReq, now);
+                EventBus.getInstance().publish({
+                    type: PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN,
+                    jobId: jobDetails.id,
+                    billingDate,
+                    outcome: BILLING_OUTCOME.SUCCEEDED,
+                    paymentReqId: latestPaymentReq.getDetails.id,
+                });
+
+                this.log(LOG_LEVEL.INFO, `DONE : ${jobDetails.fromUserId} -> ${jobDetails.toUserId}`, jobDetails.id);
+            }
+            // skipped catch up dates move the job too, even when nothing was billed
+            if (dueBillingDates.length || job.getDetails().billingCount !== billingCountBefore) {
+                schedulerController.save(job);
+            }
+        }
+    }
+
+    /** Held for review or waiting for the gateway, neither is a failure dunning should chase. */
+    private isUndecided(paymentReq: PaymentReq): boolean {
+        return paymentReq.getStatus() === PAYMENT_STATUS.IN_REVIEW || paymentReq.getStatus() === PAYMENT_STATUS.PROCESSING;
+    }
+
+    /** Later dates wait until SchedulerController.settlePendingBilling hears how the payment ended. */
+    private recordPending(job: ISchedulerJob, billingDate: Date, paymentReq: PaymentReq, now: Date) {
+        job.recordBillingPending(billingDate, paymentReq, now);
+        EventBus.getInstance().publish({
+            type: PAYMENT_EVENT_TYPE.SCHEDULED_BILLING_RUN,
+            jobId: job.getDetails().id,
+            billingDate,
+            outcome: BILLING_OUTCOME.PENDING,
+            paymentReqId: paymentReq.getDetails.id,
+        });
+    }
+
+    /**
+     * Approving a held payment only clears it, so the cron processes it once
+     * a reviewer let it through. The PAYMENT_CONFIRMED or PAYMENT_FAILED this
+     * publishes settles the billing, so does a rejection by the reviewer.
+     */
+    private async resumeApprovedBilling(job: ISchedulerJob) {
+        const pendingBilling = job.getDetails().pendingBilling;
+        const paymentReq = pendingBilling && PaymentReqController.getInstance().get(pendingBilling.paymentReqId);
+        if (!paymentReq || paymentReq.getStatus() !== PAYMENT_STATUS.IN_REVIEW || !paymentReq.isProcessable()) {
+            return;
+        }
+        try {
+            await new PaymentService(paymentReq.getDetails.gatewayType).processPayment(paymentReq);
+        } catch (error) {
+            this.log(LOG_LEVEL.ERROR, `FAILED : approved payment ${paymentReq.getDetails.id} :: ${(error as Error).message}`, job.getDetails().id);
+        }
+    }
+
+    private log(level: LOG_LEVEL, message: string, jobId?: string) {
+        EventBus.getInstance().getLogger().log(level, `SchedulerJobCron :: ${message}`, jobId ? { jobId } : undefined);
+    }
+}
+
+/** The subset of JSON Schema the API needs to check request bodies and query strings, one variant per type. */
+type IJsonSchema = IObjectSchema | IArraySchema | IStringSchema | INumberSchema | IBooleanSchema;
+
+interface IObjectSchema {
+    type: "object";
+    properties?: Record<string, IJsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    /** Amount property -> currency property, the amount must still be positive once rounded to minor units. */
+    moneyAmounts?: Record<string, string>;
+}
+
+interface IArraySchema {
+    type: "array";
+    items: IJsonSchema;
+}
+
+interface IStringSchema {
+    type: "string";
+    enum?: string[];
+    minLength?: number;
+    format?: "date-time";
+}
+
+interface INumberSchema {
+    type: "number" | "integer";
+    minimum?: number;
+    exclusiveMinimum?: number;
+}
+
+interface IBooleanSchema {
+    type: "boolean";
+}
+
+class JsonSchemaValidator {
+    /** Returns one message per problem, an empty list means the value is valid. */
+    static validate(schema: IJsonSchema, value: unknown, path: string = "$"): string[] {
+        switch (schema.type) {
+            case "object":
+                return JsonSchemaValidator.isObject(value)
+                    ? JsonSchemaValidator.validateObject(schema, value, path)
+                    : [JsonSchemaValidator.typeError(schema, path)];
+            case "array":
+                return Array.isArray(value)
+                    ? value.reduce<string[]>((errors, item, index) => errors.concat(JsonSchemaValidator.validate(schema.items, item, `${path}[${index}]`)), [])
+                    : [JsonSchemaValidator.typeError(schema, path)];
+            case "string":
+                return typeof value === "string"
+                    ? JsonSchemaValidator.validateString(schema, value, path)
+                    : [JsonSchemaValidator.typeError(schema, path)];
+            case "number":
+            case "integer":
+                return JsonSchemaValidator.isNumber(value, schema.type === "integer")
+                    ? JsonSchemaValidator.validateNumber(schema, value, path)
+                    : [JsonSchemaValidator.typeError(schema, path)];
+            case "boolean":
+                return typeof value === "boolean" ? [] : [JsonSchemaValidator.typeError(schema, path)];
+        }
+    }
+
+    static isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    private static isNumber(value: unknown, integer: boolean): value is number {
+        return typeof value === "number" && (integer ? Number.isInteger(value) : Number.isFinite(value));
+    }
+
+    private static validateObject(schema: IObjectSchema, value: Record<string, unknown>, path: string): string[] {
+        const errors: string[] = [];
+        const properties = schema.properties ?? {};
+        (schema.required ?? [])
+            .filter(property => value[property] === undefined)
+            .forEach(property => errors.push(`${path}.${property} is required`));
+        Object.keys(value).forEach(property => {
+            if (properties[property]) {
+                errors.push(...JsonSchemaValidator.validate(properties[property], value[property], `${path}.${property}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${property} is not allowed`);
+            }
+        });
+        const moneyAmounts = schema.moneyAmounts ?? {};
+        Object.keys(moneyAmounts).forEach(property => {
+            const amount = value[property];
+            const currency = value[moneyAmounts[property]];
+            if (typeof amount === "number" && typeof currency === "string" && CURRENCY_EXPONENTS[currency] !== undefined && !Money.of(amount, currency).isPositive()) {
+                errors.push(`${path}.${property} must be at least one minor unit of ${currency}`);
+            }
+        });
+        return errors;
+    }
+
+    private static validateString(schema: IStringSchema, value: string, path: string): string[] {
+        const errors: string[] = [];
+        if (schema.enum && !schema.enum.includes(value)) {
+            errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+        }
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path} must have at least ${schema.minLength} character(s)`);
+        }
+        if (schema.format === "date-time" && isNaN(new Date(value).getTime())) {
+            errors.push(`${path} must be a date-time`);
+        }
+        return errors;
+    }
+
+    private static validateNumber(schema: INumberSchema, value: number, path: string): string[] {
+        const errors: string[] = [];
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} must be at least ${schema.minimum}`);
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            errors.push(`${path} must be greater than ${schema.exclusiveMinimum}`);
+        }
+        return errors;
+    }
+
+    private static typeError(schema: IJsonSchema, path: string): string {
+        return `${path} must be ${schema.type === "integer" || schema.type === "array" || schema.type === "object" ? "an" : "a"} ${schema.type}`;
+    }
+}
+
+const enumValues = (enumObject: Record<string, string>): string[] => Object.keys(enumObject).map(key => enumObject[key]);
+
+const CURRENCY_SCHEMA: IJsonSchema = { type: "string", enum: Object.keys(CURRENCY_EXPONENTS) };
+const DATE_TIME_SCHEMA: IJsonSchema = { type: "string", format: "date-time" };
+const USER_ID_SCHEMA: IJsonSchema = { type: "string", minLength: 1 };
+
+interface ICreatePaymentBody {
+    sender: string;
+    receiver: string;
+    amount: number;
+    currency: string;
+    gatewayType: string;
+    message?: string;
+    settlementCurrency?: string;
+}
+
+const CREATE_PAYMENT_SCHEMA: IJsonSchema = {
+    type: "object",
+    required: ["sender", "receiver", "amount", "currency", "gatewayType"],
+    additionalProperties: false,
+    moneyAmounts: { amount: "currency" },
+    properties: {
+        sender: USER_ID_SCHEMA,
+        receiver: USER_ID_SCHEMA,
+        amount: { type: "number", exclusiveMinimum: 0 }, // major units, e.g. 10.5
+        currency: CURRENCY_SCHEMA,
+        gatewayType: { type: "string", minLength: 1 },
+        message: { type: "string" },
+        settlementCurrency: CURRENCY_SCHEMA,
+    },
+};
+
+const PAYMENT_QUERY_SCHEMA: IJsonSchema = {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+        userId: USER_ID_SCHEMA,
+        status: { type: "string", enum: enumValues(PAYMENT_STATUS) },
+        from: DATE_TIME_SCHEMA,
+        to: DATE_TIME_SCHEMA,
+    },
+};
+
+interface ICreateSchedulerJobBody {
+    fromUserId: string;
+    toUserId: string;
+    startDate: string;
+    endDate: string;
+    gatewayType: string;
+    frequency: IBillingFrequency;
+    amount: number;
+    currency: string;
+    catchUpPolicy?: CATCH_UP_POLICY;
+    dunningPolicy?: IDunningPolicy;
+}
+
+const CREATE_SCHEDULER_JOB_SCHEMA: IJsonSchema = {
+    type: "object",
+    required: ["fromUserId", "toUserId", "startDate", "endDate", "gatewayType", "frequency", "amount", "currency"],
+    additionalProperties: false,
+    moneyAmounts: { amount: "currency" },
+    properties: {
+        fromUserId: USER_ID_SCHEMA,
+        toUserId: USER_ID_SCHEMA,
+        startDate: DATE_TIME_SCHEMA,
+        endDate: DATE_TIME_SCHEMA,
+        gatewayType: { type: "string", minLength: 1 },
+        frequency: {
+            type: "object",
+            required: ["type"],
+            additionalProperties: false,
+            properties: {
+                type: { type: "string", enum: enumValues(BILLING_FREQUENCY) },
+                interval: { type: "integer", minimum: 1 },
+                dayOfMonth: { type: "integer", minimum: 1 },
+            },
+        },
+        amount: { type: "number", exclusiveMinimum: 0 },
+        currency: CURRENCY_SCHEMA,
+        catchUpPolicy: { type: "string", enum: enumValues(CATCH_UP_POLICY) },
+        dunningPolicy: {
+            type: "object",
+            required: ["retryDelaysInSeconds", "suspendAfterFailures"],
+            additionalProperties: false,
+            properties: {
+                retryDelaysInSeconds: { type: "array", items: { type: "integer", minimum: 0 } },
+                suspendAfterFailures: { type: "integer", minimum: 1 },
+            },
+        },
+    },
+};
+
+/** Only the status can change, PAUSED pauses the job and ACTIVE resumes it. */
+interface IUpdateSchedulerJobBody {
+    status: SCHEDULER_JOB_STATUS.PAUSED | SCHEDULER_JOB_STATUS.ACTIVE;
+}
+
+const UPDATE_SCHEDULER_JOB_SCHEMA: IJsonSchema = {
+    type: "object",
+    required: ["status"],
+    additionalProperties: false,
+    properties: {
+        status: { type: "string", enum: [SCHEDULER_JOB_STATUS.PAUSED, SCHEDULER_JOB_STATUS.ACTIVE] },
+    },
+};
+
+const SCHEDULER_JOB_QUERY_SCHEMA: IJsonSchema = {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+        userId: USER_ID_SCHEMA,
+        status: { type: "string", enum: enumValues(SCHEDULER_JOB_STATUS) },
+        from: DATE_TIME_SCHEMA,
+        to: DATE_TIME_SCHEMA,
+    },
+};
+
+/** Every error leaves the API as { error: { code, message, details? } } with this status code. */
+class HttpError extends Error {
+    constructor(public statusCode: number, public code: string, message: string, public details?: string[]) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+
+interface IApiRequest {
+    params: string[]; // capture groups of the route path
+    query: Record<string, string>;
+    body: unknown; // parsed JSON, handlers narrow it with validated()
+    rawBody: string;
+    headers: Record<string, string | undefined>;
+}
+
+interface IApiRoute {
+    method: string;
+    path: RegExp;
+    querySchema?: IJsonSchema;
+    handler: (request: IApiRequest) => Promise<IResponse> | IResponse;
+}
+
+const MAX_BODY_SIZE_IN_BYTES = 1024 * 1024;
+
+/**
+ * Local HTTP API on top of the controllers. handle() does all the work and
+ * knows nothing about sockets, start() only wires it to Node's http server.
+ */
+class PaymentApiServer {
+    private static instance: PaymentApiServer;
+    private server: http.Server | null = null;
+    private routes: IApiRoute[] = [
+        { method: "POST", path: /^\/payments$/, handler: request => this.createPayment(request) },
+        { method: "GET", path: /^\/payments$/, querySchema: PAYMENT_QUERY_SCHEMA, handler: request => this.listPayments(request) },
+        { method: "GET", path: /^\/payments\/([^/]+)$/, handler: request => this.ok(this.getPayment(request.params[0]).toRecord()) },
+        { method: "POST", path: /^\/payments\/([^/]+)\/process$/, handler: request => this.processPayment(request) },
+        { method: "POST", path: /^\/scheduler-jobs$/, handler: request => this.createSchedulerJob(request) },
+        { method: "GET", path: /^\/scheduler-jobs$/, querySchema: SCHEDULER_JOB_QUERY_SCHEMA, handler: request => this.listSchedulerJobs(request) },
+        { method: "GET", path: /^\/scheduler-jobs\/([^/]+)$/, handler: request => this.ok(this.getSchedulerJob(request.params[0]).toRecord()) },
+        { method: "PATCH", path: /^\/scheduler-jobs\/([^/]+)$/, handler: request => this.updateSchedulerJob(request) },
+        { method: "DELETE", path: /^\/scheduler-jobs\/([^/]+)$/, handler: request => this.cancelSchedulerJob(request) },
+        { method: "POST", path: /^\/webhooks\/([^/]+)$/, handler: request => WebhookController.getInstance().handle(request.params[0], request.rawBody, request.headers) },
+    ];
+
+    static getInstance(): PaymentApiServer {
+        if (!PaymentApiServer.instance) {
+            PaymentApiServer.instance = new PaymentApiServer();
+        }
+        return PaymentApiServer.instance;
+    }
+
+    start(port: number): Promise<void> {
+        if (this.server) {
+            throw new Error("Payment API is already running");
+        }
+        const server = http.createServer((req, res) => this.onRequest(req, res));
+        this.server = server;
+        return new Promise(resolve => server.listen(port, () => {
+            console.log(`Payment API listening on port ${port}`);
+            resolve();
+        }));
+    }
+
+    stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        return new Promise((resolve, reject) => server ? server.close(error => error ? reject(error) : resolve()) : resolve());
+    }
+
+    /** Headers are expected in lower case, the way Node's http module hands them over. */
+    async handle(method: string, url: string, rawBody: string, headers: Record<string, string | undefined> = {}): Promise<IResponse> {
+        try {
+            const { pathname, searchParams } = new URL(url, "http://localhost");
+            const matching = this.routes.filter(route => route.path.test(pathname));
+            const route = matching.find(candidate => candidate.method === method);
+            if (!route) {
+                throw matching.length
+                    ? new HttpError(405, "METHOD_NOT_ALLOWED", `${method} is not allowed on ${pathname}`)
+                    : new HttpError(404, "NOT_FOUND", `No route for ${pathname}`);
+            }
+            const query: Record<string, string> = {};
+            searchParams.forEach((value, key) => query[key] = value);
+            const request: IApiRequest = {
+                params: pathname.match(route.path)!.slice(1).map(param => this.decodeParam(param)),
+                query,
+                body: this.parseBody(rawBody),
+                rawBody,
+                headers,
+            };
+            if (route.querySchema) {
+                this.validated(route.querySchema, request.query, "query");
+            }
+            return await route.handler(request);
+        } catch (error) {
+            return this.toErrorResponse(error as Error);
+        }
+    }
+
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        let rawBody = "";
+        let tooLarge = false;
+        req.setEncoding("utf8");
+        req.on("data", (chunk: string) => {
+            rawBody += chunk;
+            tooLarge = tooLarge || Buffer.byteLength(rawBody) > MAX_BODY_SIZE_IN_BYTES;
+        });
+        req.on("end", async () => {
+            const headers: Record<string, string | undefined> = {};
+            Object.keys(req.headers).forEach(name => {
+                const value = req.headers[name];
+                headers[name] = Array.isArray(value) ? value.join(", ") : value;
+            });
+            const response = tooLarge
+                ? this.toErrorResponse(new HttpError(413, "PAYLOAD_TOO_LARGE", `Body is over ${MAX_BODY_SIZE_IN_BYTES} bytes`))
+                : await this.handle(req.method ?? "GET", req.url ?? "/", rawBody, headers);
+            console.log(`PaymentApiServer :: ${req.method} ${req.url} :: ${response.statusCode}`)
+            res.writeHead(response.statusCode, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(response.data));
+        });
+    }
+
+    private decodeParam(param: string): string {
+        try {
+            return decodeURIComponent(param);
+        } catch (error) {
+            throw new HttpError(400, "INVALID_PATH", `Path segment ${param} is not a valid percent-encoding`);
+        }
+    }
+
+    private parseBody(rawBody: string): unknown {
+        if (!rawBody.trim()) {
+            return {};
+        }
+        try {
+            return JSON.parse(rawBody);
+        } catch (error) {
+            throw new HttpError(400, "INVALID_JSON", "Body is not valid JSON");
+        }
+    }
+
+    /** Hands value back as T once it passed schema, T has to describe what schema accepts. */
+    private validated<T>(schema: IJsonSchema, value: unknown, path: string): T {
+        const errors = JsonSchemaValidator.validate(schema, value, path);
+        if (errors.length) {
+            throw new HttpError(400, "VALIDATION_FAILED", `Invalid ${path}`, errors);
+        }
+        return value as T;
+    }
+
+    /** Domain errors are plain Errors, so anything we don't know better about is a rule the request broke. */
+    private toErrorResponse(error: Error): IResponse {
+        let httpError: HttpError;
+        if (error instanceof HttpError) {
+            httpError = error;
+        } else if (error instanceof PaymentRiskError) {
+            httpError = error.decision === RISK_DECISION.DENY
+                ? new HttpError(403, "PAYMENT_DENIED", error.message)
+                : new HttpError(409, "PAYMENT_IN_REVIEW", error.message);
+        } else if (error instanceof InsufficientFundsError) {
+            httpError = new HttpError(402, "INSUFFICIENT_FUNDS", error.message);
+        } else if (error instanceof CircuitOpenError) {
+            httpError = new HttpError(503, "GATEWAY_UNAVAILABLE", error.message);
+        } else if (error instanceof IdempotencyConflictError) {
+            httpError = new HttpError(409, "REQUEST_IN_PROGRESS", error.message);
+        } else if (error instanceof TypeError || error instanceof ReferenceError) {
+            console.error(error);
+            httpError = new HttpError(500, "INTERNAL_ERROR", "Something went wrong");
+        } else {
+            httpError = new HttpError(422, "UNPROCESSABLE", error.message);
+        }
+        const { statusCode, code, message, details } = httpError;
+        return { data: { error: { code, message, details } }, statusCode };
+    }
+
+    private ok(data: object, statusCode: number = 200): IResponse {
+        return { data, statusCode };
+    }
+
+    private assertGateway(gatewayType: string) {
+        if (!PaymentGatewayRegistry.getInstance().keys().includes(gatewayType)) {
+            throw new HttpError(400, "VALIDATION_FAILED", "Invalid body", [`body.gatewayType must be one of ${PaymentGatewayRegistry.getInstance().keys().join(", ")}`]);
+        }
+    }
+
+    private toDates(query: Record<string, string>) {
+        return {
+            from: query.from ? new Date(query.from) : undefined,
+            to: query.to ? new Date(query.to) : undefined,
+        };
+    }
+
+    private createPayment(request: IApiRequest): IResponse {
+        const body = this.validated<ICreatePaymentBody>(CREATE_PAYMENT_SCHEMA, request.body, "body");
+        this.assertGateway(body.gatewayType);
+        const paymentReq = PaymentReqController.getInstance().create(
+            new PaymentUser(body.sender),
+            new PaymentUser(body.receiver),
+            Money.of(body.amount, body.currency),
+            body.gatewayType,
+            body.message,
+            body.settlementCurrency
+        );
+        return this.ok(paymentReq.toRecord(), 201);
+    }
+
+    private listPayments({ query }: IApiRequest): IResponse {
+        const paymentReqs = PaymentReqController.getInstance().query({
+            userId: query.userId,
+            status: query.status as PAYMENT_STATUS | undefined,
+            ...this.toDates(query),
+        });
+        return this.ok(paymentReqs.map(paymentReq => paymentReq.toRecord()));
+    }
+
+    private getPayment(paymentReqId: string): PaymentReq {
+        const paymentReq = PaymentReqController.getInstance().get(paymentReqId);
+        if (!paymentReq) {
+            throw new HttpError(404, "NOT_FOUND", `Payment ${paymentReqId} not found`);
+        }
+        return paymentReq;
+    }
+
+    /** Retries are safe with an Idempotency-Key header, the first response is replayed. */
+    private async processPayment({ params, headers }: IApiRequest): Promise<IResponse> {
+        const paymentReq = this.getPayment(params[0]);
+        const paymentService = new PaymentService(paymentReq.getDetails.gatewayType);
+        const response = await paymentService.processPayment(paymentReq, headers["idempotency-key"]);
+        return this.ok({ payment: paymentReq.toRecord(), gatewayResponse: response.data }, response.statusCode);
+    }
+
+    private createSchedulerJob(request: IApiRequest): IResponse {
+        const body = this.validated<ICreateSchedulerJobBody>(CREATE_SCHEDULER_JOB_SCHEMA, request.body, "body");
+        this.assertGateway(body.gatewayType);
+        const schedulerController = SchedulerController.getInstance();
+        const jobId = schedulerController.createSchedulerJob(
+            body.fromUserId,
+            body.toUserId,
+            new Date(body.startDate),
+            new Date(body.endDate),
+            body.gatewayType,
+            body.frequency,
+            Money.of(body.amount, body.currency),
+            body.catchUpPolicy,
+            body.dunningPolicy
+        );
+        return this.ok(schedulerController.getSchedulerJob(jobId).toRecord(), 201);
+    }
+
+    private listSchedulerJobs({ query }: IApiRequest): IResponse {
+        const jobs = SchedulerController.getInstance().query({
+            userId: query.userId,
+            status: query.status as SCHEDULER_JOB_STATUS | undefined,
+            ...this.toDates(query),
+        });
+        return this.ok(jobs.map(job => job.toRecord()));
+    }
+
+    private getSchedulerJob(jobId: string): ISchedulerJob {
+        const job = SchedulerController.getInstance().findSchedulerJob(jobId);
+        if (!job) {
+            throw new HttpError(404, "NOT_FOUND", `Scheduler job ${jobId} not found`);
+        }
+        return job;
+    }
+
+    private updateSchedulerJob({ params, body: unchecked }: IApiRequest): IResponse {
+        const body = this.validated<IUpdateSchedulerJobBody>(UPDATE_SCHEDULER_JOB_SCHEMA, unchecked, "body");
+        const job = this.getSchedulerJob(params[0]);
+        if (body.status === SCHEDULER_JOB_STATUS.PAUSED) {
+            SchedulerController.getInstance().pauseSchedulerJob(params[0]);
+        } else {
+            SchedulerController.getInstance().resumeSchedulerJob(params[0]);
+        }
+        return this.ok(job.toRecord());
+    }
+
+    /** Jobs are cancelled rather than removed, their billing history stays around. */
+    private cancelSchedulerJob({ params }: IApiRequest): IResponse {
+        const job = this.getSchedulerJob(params[0]);
+        SchedulerController.getInstance().cancelSchedulerJob(params[0]);
+        return this.ok(job.toRecord());
+    }
+}
+
+/**
+ * Demos of the features, each checks what it shows. A failed check doesn't
+ * stop the demos, they are all reported at the end and set the exit code.
+ */
+const failedChecks: string[] = [];
+let checkCount = 0;
+
+function check(description: string, passed: boolean) {
+    checkCount++;
+    if (!passed) {
+        failedChecks.push(description);
+        console.error(`CHECK FAILED :: ${description}`);
+    }
+}
+
+/** The error the call was turned away with, undefined when it went through. */
+async function rejectionOf(call: () => Promise<unknown>): Promise<Error | undefined> {
+    try {
+        await call();
+        return undefined;
+    } catch (error) {
+        return error as Error;
+    }
+}
+
+/** Times out on the first transientFailures process calls of each instance and refuses every refund. */
+class FlakyGateway extends PaytmGateway {
+    private processCalls = 0;
+    constructor(private flakyConfig: GatewayConfig = {}) {
+        super(flakyConfig);
+    }
+
+    async process(paymentReq: PaymentReq) {
+        this.processCalls++;
+        if (this.processCalls <= Number(this.flakyConfig.transientFailures ?? 0)) {
+            throw new TransientGatewayError(`FlakyPay timed out on call ${this.processCalls}`);
+        }
+        await super.process(paymentReq);
+    }
+
+    async refund(paymentReq: PaymentReq, refundReq: RefundReq): Promise<IResponse> {
+        throw new Error(`FlakyPay refused refund ${refundReq.getDetails.id}`);
+    }
+}
+
+PaymentGatewayRegistry.getInstance().register({
+    key: "FlakyPay",
+    capabilities: { refunds: true, currencies: ["INR"], maxAmount: Money.of(100000, "INR") },
+    config: { transientFailures: "0" },
+    create: config => new FlakyGateway(config),
+});
+
+class RazorpayGateway extends PaytmGateway {}
+
+PaymentGatewayRegistry.getInstance().register({
+    key: "Razorpay",
+    capabilities: { refunds: false, currencies: ["INR", "JPY"], maxAmount: Money.of(500000, "INR") },
+    config: { keyId: "rzp_test" },
+    create: config => new RazorpayGateway(config),
+});
+
+async function demoPaymentLifecycle() {
+    console.log("\n================ Payment lifecycle: ================");
+    Ledger.getInstance().deposit('John Doe', Money.of(1000, "INR"));
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('John Doe'), new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM, "Gift");
+    check("a new payment is CREATED and can't skip ahead to CONFIRMED",
+        paymentReq.getStatus() === PAYMENT_STATUS.CREATED && !paymentReq.canTransitionTo(PAYMENT_STATUS.CONFIRMED));
+    await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq);
+    console.log(paymentReq.getStatusHistory());
+    check("a processed payment walks CREATED -> VALIDATED -> PROCESSING -> CONFIRMED",
+        paymentReq.getStatusHistory().map(transition => transition.to).join(",") === "CREATED,VALIDATED,PROCESSING,CONFIRMED");
+    const error = await rejectionOf(() => new PaymentService(GATEWAY_TYPE.GPAY).processPayment(paymentReq));
+    console.log(error?.message);
+    check("a confirmed payment can't be processed again", !!error && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    check("an invalid transition throws and leaves the status alone",
+        !!(await rejectionOf(async () => paymentReq.transitionTo(PAYMENT_STATUS.PROCESSING))) && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+}
+
+async function demoRefunds() {
+    console.log("\n================ Partial and full refunds: ================");
+    const ledger = Ledger.getInstance();
+    const paymentReqController = PaymentReqController.getInstance();
+    const buyer = new PaymentUser('Refund Buyer');
+    ledger.deposit('Refund Buyer', Money.of(1000, "INR"));
+    let paymentReq = paymentReqController.create(buyer, new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM);
+    const paytmService = new PaymentService(GATEWAY_TYPE.PAYTM);
+    await paytmService.processPayment(paymentReq);
+    await paytmService.refundPayment(paymentReq, Money.of(30, "INR"), "Damaged item");
+    check("a partial refund leaves the payment PARTIALLY_REFUNDED", paymentReq.getStatus() === PAYMENT_STATUS.PARTIALLY_REFUNDED);
+    check("more than what is left can't be refunded", !!(await rejectionOf(() => paytmService.refundPayment(paymentReq, Money.of(80, "INR")))));
+    await paytmService.refundPayment(paymentReq);
+    console.log(paymentReqController.listRefunds(paymentReq.getDetails.id).map(refundReq => refundReq.getDetails));
+    check("refunding the rest leaves it REFUNDED", paymentReq.getStatus() === PAYMENT_STATUS.REFUNDED);
+    check("both refunds succeeded", paymentReqController.listRefunds(paymentReq.getDetails.id).every(refundReq => refundReq.getDetails.status === REFUND_STATUS.SUCCEEDED));
+    check("the buyer got all 100 INR back", ledger.getBalance('Refund Buyer', "INR").equals(Money.of(1000, "INR")));
+
+    paymentReq = paymentReqController.create(buyer, new PaymentUser('Jane Smith'), Money.of(40, "INR"), "FlakyPay");
+    await new PaymentService("FlakyPay").processPayment(paymentReq);
+    const error = await rejectionOf(() => new PaymentService("FlakyPay").refundPayment(paymentReq));
+    const [refusedRefund] = paymentReqController.listRefunds(paymentReq.getDetails.id);
+    console.log(error?.message, refusedRefund.getDetails);
+    check("a refund the gateway refused is FAILED and the payment stays CONFIRMED",
+        refusedRefund.getDetails.status === REFUND_STATUS.FAILED && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+}
+
+async function demoIdempotencyKeys() {
+    console.log("\n================ Idempotency keys: ================");
+    Ledger.getInstance().deposit('Dinner Buyer', Money.of(1000, "INR"));
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Dinner Buyer'), new PaymentUser('Jane Smith'), Money.of(50, "INR"), GATEWAY_TYPE.PAYTM, "Dinner");
+    const paytmService = new PaymentService(GATEWAY_TYPE.PAYTM);
+    const first = paytmService.processPayment(paymentReq, "dinner-key-1");
+    const error = await rejectionOf(() => paytmService.processPayment(paymentReq, "dinner-key-1"));
+    const firstResponse = await first;
+    console.log(error?.message);
+    check("a duplicate sent while the first call runs gets an IdempotencyConflictError", error instanceof IdempotencyConflictError);
+    const replayedResponse = await paytmService.processPayment(paymentReq, "dinner-key-1");
+    check("a replay after the first call finished gets the stored response",
+        JSON.stringify(replayedResponse) === JSON.stringify(firstResponse) && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    check("the replay didn't charge the buyer twice", Ledger.getInstance().getBalance('Dinner Buyer', "INR").equals(Money.of(950, "INR")));
+    const otherPaymentReq = PaymentReqController.getInstance().create(new PaymentUser('Dinner Buyer'), new PaymentUser('Jane Smith'), Money.of(20, "INR"), GATEWAY_TYPE.PAYTM);
+    check("a key can't be reused for another payment", !!(await rejectionOf(() => paytmService.processPayment(otherPaymentReq, "dinner-key-1"))));
+}
+
+async function demoRetries() {
+    console.log("\n================ Exponential backoff on transient errors only: ================");
+    Ledger.getInstance().deposit('Retry Buyer', Money.of(1000, "INR"));
+    const retryClock = new ManualClock();
+    const retryPolicy = new MaxElapsedTimeRetryPolicy(
+        new TransientErrorRetryPolicy(new ExponentialBackoffRetryPolicy(5, 200, 5000, () => 1)),
+        5000
+    );
+    const retryEvents: PaymentEvent[] = [];
+    const unsubscribe = EventBus.getInstance().subscribe(PAYMENT_EVENT_TYPE.PROCESS_ATTEMPT_FAILED, event => retryEvents.push(event));
+    PaymentGatewayRegistry.getInstance().configure("FlakyPay", { transientFailures: "2" });
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Retry Buyer'), new PaymentUser('Jane Smith'), Money.of(70, "INR"), "FlakyPay");
+    await new PaymentService("FlakyPay", retryPolicy, retryClock).processPayment(paymentReq);
+    unsubscribe();
+    PaymentGatewayRegistry.getInstance().configure("FlakyPay", { transientFailures: "0" });
+    console.log(retryClock.getSleeps(), retryEvents);
+    check("two timeouts are retried after 200ms and 400ms", retryClock.getSleeps().join(",") === "200,400");
+    check("the third attempt confirms the payment", paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    check("every failed attempt is published", retryEvents.length === 2);
+    const policy = new TransientErrorRetryPolicy(new FixedRetryPolicy(3));
+    check("permanent errors are not retried", policy.nextDelayInMs({ attempt: 1, error: new Error("card declined"), elapsedMs: 0 }) === null);
+}
+
+async function demoCircuitBreaker() {
+    console.log("\n================ Circuit breaker and failover: ================");
+    const paymentReqController = PaymentReqController.getInstance();
+    const buyer = new PaymentUser('Failover Buyer');
+    const seller = new PaymentUser('Jane Smith');
+    Ledger.getInstance().deposit('Failover Buyer', Money.of(1000, "INR"));
+    const breakers = CircuitBreakerRegistry.getInstance();
+    breakers.configure({ minimumCalls: 2 });
+    breakers.getBreaker(GATEWAY_TYPE.PAYTM).recordFailure(new Error("Paytm is down"));
+    breakers.getBreaker(GATEWAY_TYPE.PAYTM).recordFailure(new Error("Paytm is down"));
+    let paymentReq = paymentReqController.create(buyer, seller, Money.of(20, "INR"), GATEWAY_TYPE.PAYTM);
+    let error = await rejectionOf(() => new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq));
+    check("without failover an open circuit fails fast", error instanceof CircuitOpenError);
+    paymentReq = paymentReqController.create(buyer, seller, Money.of(20, "INR"), GATEWAY_TYPE.PAYTM);
+    await new PaymentService(GATEWAY_TYPE.PAYTM, undefined, undefined, true).processPayment(paymentReq);
+    console.log(paymentReq.getDetails.routedGatewayType, paymentReq.getDetails.routingReason, breakers.getStates());
+    check("with failover the payment moves to GPay", paymentReq.getProcessingGatewayType() === GATEWAY_TYPE.GPAY && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+
+    // FlakyPay keeps timing out, its circuit opens after the second attempt
+    PaymentGatewayRegistry.getInstance().configure("FlakyPay", { transientFailures: "9" });
+    breakers.configure({});
+    const retryClock = new ManualClock();
+    paymentReq = paymentReqController.create(buyer, seller, Money.of(20, "INR"), "FlakyPay");
+    error = await rejectionOf(() => new PaymentService("FlakyPay", new FixedRetryPolicy(5), retryClock).processPayment(paymentReq));
+    console.log(error?.message, retryClock.getSleeps());
+    check("once the circuit opened the retries stop and the payment fails",
+        error instanceof CircuitOpenError && retryClock.getSleeps().length === 2 && paymentReq.getStatus() === PAYMENT_STATUS.FAILED);
+    breakers.configure({});
+    paymentReq = paymentReqController.create(buyer, seller, Money.of(20, "INR"), "FlakyPay");
+    await new PaymentService("FlakyPay", new FixedRetryPolicy(5), new ManualClock(), true).processPayment(paymentReq);
+    console.log(paymentReq.getDetails.routedGatewayType, paymentReq.getDetails.routingReason);
+    check("with failover a circuit that opens between retries moves the payment to Paytm",
+        paymentReq.getProcessingGatewayType() === GATEWAY_TYPE.PAYTM && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    breakers.configure({ minimumCalls: 5 });
+    PaymentGatewayRegistry.getInstance().configure("FlakyPay", { transientFailures: "0" });
+}
+
+async function demoGatewayRegistry() {
+    console.log("\n================ Picking a registered gateway by capability: ================");
+    const registry = PaymentGatewayRegistry.getInstance();
+    console.log(registry.keys());
+    check("only GPay takes USD", registry.findByCapabilities({ currency: "USD" }).map(registration => registration.key).join(",") === GATEWAY_TYPE.GPAY);
+    Ledger.getInstance().deposit('Registry Buyer', Money.of(100, "INR"));
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Registry Buyer'), new PaymentUser('Jane Smith'), Money.of(60, "INR"), "Razorpay");
+    await PaymentService.forCapabilities({ amount: Money.of(300000, "INR") }).processPayment(paymentReq);
+    check("only Razorpay takes 300000 INR", paymentReq.getProcessingGatewayType() === "Razorpay" && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    const error = await rejectionOf(() => new PaymentService("Razorpay").refundPayment(paymentReq));
+    check("Razorpay was registered without refunds", !!error && paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    check("registering a key twice throws", !!(await rejectionOf(async () => registry.register(registry.get("Razorpay")))));
+    // Razorpay takes JPY, but there is no JPY -> INR rate to check its INR cap with
+    check("a gateway whose cap can't be converted doesn't qualify",
+        !registry.supports("Razorpay", { amount: Money.of(1000, "JPY") }) && registry.findByCapabilities({ amount: Money.of(1000, "JPY") }).length === 0);
+}
+
+async function demoLedger() {
+    console.log("\n================ Double-entry ledger: ================");
+    const ledger = Ledger.getInstance();
+    ledger.deposit('Ledger Buyer', Money.of(100, "INR"));
+    const receiverBefore = ledger.getBalance('Ledger Receiver', "INR");
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Ledger Buyer'), new PaymentUser('Ledger Receiver'), Money.of(60, "INR"), GATEWAY_TYPE.PAYTM);
+    await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq);
+    console.log(ledger.listEntries(paymentReq.getDetails.id));
+    check("the buyer paid 60 INR", ledger.getBalance('Ledger Buyer', "INR").equals(Money.of(40, "INR")));
+    check("the receiver got 60 INR", ledger.getBalance('Ledger Receiver', "INR").equals(receiverBefore.add(Money.of(60, "INR"))));
+    const error = await rejectionOf(() => new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(
+        PaymentReqController.getInstance().create(new PaymentUser('Ledger Buyer'), new PaymentUser('Ledger Receiver'), Money.of(50, "INR"), GATEWAY_TYPE.PAYTM)
+    ));
+    check("a payment over the balance is turned away", error instanceof InsufficientFundsError);
+    check("and no hold is left behind", ledger.getAvailableBalance('Ledger Buyer', "INR").equals(Money.of(40, "INR")));
+    const trialBalance = ledger.getTrialBalance();
+    console.log(trialBalance);
+    check("debits and credits add up", trialBalance.isBalanced);
+}
+
+async function demoFx() {
+    console.log("\n================ Paying in USD and settling in INR: ================");
+    const ledger = Ledger.getInstance();
+    ledger.deposit('Traveller', Money.of(100, "USD"));
+    const receiverBefore = ledger.getBalance('Jane Smith', "INR");
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Traveller'), new PaymentUser('Jane Smith'), Money.of(10, "USD"), GATEWAY_TYPE.GPAY, "Books", "INR");
+    await PaymentService.forCapabilities({ currency: "USD" }).processPayment(paymentReq);
+    const { fxConversion } = paymentReq.getDetails;
+    console.log(fxConversion);
+    check("the receiver got the converted INR amount",
+        !!fxConversion && ledger.getBalance('Jane Smith', "INR").equals(receiverBefore.add(fxConversion.to)));
+    check("the traveller paid 10 USD", ledger.getBalance('Traveller', "USD").equals(Money.of(90, "USD")));
+    const fx = FxService.getInstance();
+    check("a large amount converts exactly", fx.convert(Money.ofMinor(12345678901, "USD"), "INR").to.equals(Money.ofMinor(12345678901 * 83, "INR")));
+    // 2.25 INR is 2.5 euro cents at 1 EUR = 90 INR
+    check("a tie rounds half up by default", fx.convert(Money.of(2.25, "INR"), "EUR").to.equals(Money.ofMinor(3, "EUR")));
+    fx.setRoundingMode(ROUNDING_MODE.HALF_EVEN);
+    check("and to the even cent with HALF_EVEN", fx.convert(Money.of(2.25, "INR"), "EUR").to.equals(Money.ofMinor(2, "EUR")));
+    fx.setRoundingMode(ROUNDING_MODE.HALF_UP);
+    check("the ledger stays balanced across currencies", ledger.getTrialBalance().isBalanced);
+    check("a payment of less than one minor unit is turned away", !!(await rejectionOf(async () => PaymentReqController.getInstance().create(
+        new PaymentUser('Traveller'), new PaymentUser('Jane Smith'), Money.of(0.001, "INR"), GATEWAY_TYPE.PAYTM
+    ))));
+}
+
+async function demoRecurringBilling() {
+    console.log("\n================ Recurring billing: ================");
+    const schedulerController = SchedulerController.getInstance();
+    const startDate = new Date();
+    const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days from now
+    Ledger.getInstance().deposit('user123', Money.of(1000, "INR"));
+    // every 5 seconds for the demo, { type: BILLING_FREQUENCY.MONTHLY_ON_DAY, dayOfMonth: 31 } bills on the last day of every month
+    const jobId = schedulerController.createSchedulerJob('user123', 'user456', startDate, endDate, GATEWAY_TYPE.PAYTM,
+        { type: BILLING_FREQUENCY.SECONDS, interval: 5 }, Money.of(100, "INR"));
+    // confirmed by a GPay callback after the gateway answered 202
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.GPAY, { confirmation: "webhook" });
+    Ledger.getInstance().deposit('Streamer', Money.of(1000, "INR"));
+    const streamerJobId = schedulerController.createSchedulerJob('Streamer', 'user456', startDate, endDate, GATEWAY_TYPE.GPAY,
+        { type: BILLING_FREQUENCY.DAILY }, Money.of(100, "INR"));
+    const outcomesOf = (id: string) => schedulerController.getBillingHistory(id).map(attempt => attempt.outcome).join(",");
+
+    const schedulerCron = SchedulerJobCron.getInstance();
+    const clock = new SystemClock();
+    schedulerCron.start();
+    await clock.sleep(2500);
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.GPAY, { confirmation: "sync" });
+    check("a billing the gateway answered with 202 stays pending", outcomesOf(streamerJobId) === BILLING_OUTCOME.PENDING);
+    const { pendingBilling } = schedulerController.getSchedulerJob(streamerJobId).getDetails();
+    const streamerPayment = pendingBilling && PaymentReqController.getInstance().get(pendingBilling.paymentReqId);
+    if (streamerPayment) {
+        const webhooks = WebhookController.getInstance();
+        const rawBody = JSON.stringify({
+            eventId: `evt_${IDGenerator.generate()}`,
+            merchantTransactionId: streamerPayment.getDetails.id,
+            paymentId: streamerPayment.getDetails.gatewayReference,
+            state: "SUCCESS",
+            eventTime: new Date().toISOString(),
+        });
+        webhooks.handle(GATEWAY_TYPE.GPAY, rawBody, { "x-gpay-signature": webhooks.getHandler(GATEWAY_TYPE.GPAY).sign(rawBody) });
+    }
+    check("the callback settled the pending billing", outcomesOf(streamerJobId) === `${BILLING_OUTCOME.PENDING},${BILLING_OUTCOME.SUCCEEDED}`);
+
+    // Let it run for a while to see scheduled payments
+    await clock.sleep(10500);
+    schedulerCron.stop();
+    console.log(schedulerController.getBillingHistory(jobId));
+    check("the every 5 seconds job billed three times", outcomesOf(jobId) === [1, 2, 3].map(() => BILLING_OUTCOME.SUCCEEDED).join(","));
+    check("the next billing date follows the start date", schedulerController.getSchedulerJob(jobId).getDetails().nextBillingDate.getTime() === startDate.getTime() + 15 * 1000);
+    schedulerController.cancelSchedulerJob(jobId);
+    schedulerController.cancelSchedulerJob(streamerJobId);
+}
+
+async function demoDunning() {
+    console.log("\n================ Dunning: ================");
+    const schedulerController = SchedulerController.getInstance();
+    const startDate = new Date();
+    const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    // nothing to pay with, dunning retries it tomorrow
+    const brokeJobId = schedulerController.createSchedulerJob('Broke User', 'user456', startDate, endDate, GATEWAY_TYPE.PAYTM,
+        { type: BILLING_FREQUENCY.DAILY }, Money.of(100, "INR"));
+    // held for review, waits for the reviewer instead of being dunned
+    Ledger.getInstance().deposit('Big Subscriber', Money.of(200000, "INR"));
+    const reviewedJobId = schedulerController.createSchedulerJob('Big Subscriber', 'user456', startDate, endDate, GATEWAY_TYPE.GPAY,
+        { type: BILLING_FREQUENCY.DAILY }, Money.of(150000, "INR"));
+    const outcomesOf = (id: string) => schedulerController.getBillingHistory(id).map(attempt => attempt.outcome).join(",");
+
+    const schedulerCron = SchedulerJobCron.getInstance();
+    const clock = new SystemClock();
+    schedulerCron.start();
+    await clock.sleep(2500);
+    const brokeJob = schedulerController.getSchedulerJob(brokeJobId).getDetails();
+    console.log(schedulerController.getBillingHistory(brokeJobId), brokeJob.pendingRetry);
+    check("a billing the payer can't afford goes to dunning", outcomesOf(brokeJobId) === BILLING_OUTCOME.FAILED && brokeJob.status === SCHEDULER_JOB_STATUS.PAST_DUE);
+    check("the first retry is a day later", !!brokeJob.pendingRetry
+        && brokeJob.pendingRetry.retryAt.getTime() - schedulerController.getBillingHistory(brokeJobId)[0].attemptedAt.getTime() === DEFAULT_DUNNING_POLICY.retryDelaysInSeconds[0] * 1000);
+    check("a billing held for review stays pending", outcomesOf(reviewedJobId) === BILLING_OUTCOME.PENDING
+        && schedulerController.getSchedulerJob(reviewedJobId).getDetails().status === SCHEDULER_JOB_STATUS.ACTIVE);
+
+    const [heldPayment] = RiskEngine.getInstance().listPendingReviews().filter(payment => payment.getDetails.sender.getDetails().username === 'Big Subscriber');
+    RiskEngine.getInstance().approve(heldPayment.getDetails.id, "risk-team", "known customer");
+    await clock.sleep(2000);
+    schedulerCron.stop();
+    check("the approved billing went through on the next run", outcomesOf(reviewedJobId) === `${BILLING_OUTCOME.PENDING},${BILLING_OUTCOME.SUCCEEDED}`);
+    schedulerController.cancelSchedulerJob(brokeJobId);
+    schedulerController.cancelSchedulerJob(reviewedJobId);
+}
+
+async function demoPersistentStorage() {
+    console.log("\n================ Persistent storage: ================");
+    const paymentReqController = PaymentReqController.getInstance();
+    const schedulerController = SchedulerController.getInstance();
+    const dataDir = path.join(__dirname, "data", "demo");
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    const paymentsPath = path.join(dataDir, "payments.json");
+    const refundsPath = path.join(dataDir, "refunds.json");
+    const schedulerJobsPath = path.join(dataDir, "scheduler-jobs.json");
+    const idempotencyRecordsPath = path.join(dataDir, "idempotency-records.json");
+    const useFiles = () => {
+        paymentReqController.useRepositories(new FileRepository(paymentsPath, PAYMENT_REQ_MAPPER), new FileRepository(refundsPath, REFUND_REQ_MAPPER),
+            new FileRepository(idempotencyRecordsPath, IDEMPOTENCY_RECORD_MAPPER));
+        schedulerController.useRepository(new FileRepository(schedulerJobsPath, SCHEDULER_JOB_MAPPER));
+    };
+    useFiles();
+    Ledger.getInstance().deposit('Stored Buyer', Money.of(1000, "INR"));
+    const paymentReq = paymentReqController.create(new PaymentUser('Stored Buyer'), new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM);
+    const paytmService = new PaymentService(GATEWAY_TYPE.PAYTM);
+    const firstResponse = await paytmService.processPayment(paymentReq, "stored-key-1");
+    await paytmService.refundPayment(paymentReq, Money.of(25, "INR"));
+    const jobId = schedulerController.createSchedulerJob('Stored Buyer', 'Jane Smith', new Date(Date.now() + 24 * 60 * 60 * 1000),
+        new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), GATEWAY_TYPE.PAYTM, { type: BILLING_FREQUENCY.WEEKLY }, Money.of(10, "INR"));
+    schedulerController.pauseSchedulerJob(jobId);
+    const job = schedulerController.getSchedulerJob(jobId);
+
+    // what a restart would load
+    useFiles();
+    const reloaded = paymentReqController.get(paymentReq.getDetails.id);
+    console.log(reloaded?.toRecord());
+    check("a reloaded payment has its status, history and refunds back",
+        !!reloaded && reloaded !== paymentReq && JSON.stringify(reloaded.toRecord()) === JSON.stringify(paymentReq.toRecord())
+        && paymentReqController.listRefunds(paymentReq.getDetails.id).length === 1);
+    const reloadedJob = schedulerController.getSchedulerJob(jobId);
+    check("a reloaded scheduler job is still paused with the same schedule",
+        reloadedJob !== job && JSON.stringify(reloadedJob.toRecord()) === JSON.stringify(job.toRecord()) && reloadedJob.getDetails().status === SCHEDULER_JOB_STATUS.PAUSED);
+    const replayedResponse = await paytmService.processPayment(reloaded!, "stored-key-1");
+    check("an idempotency key survives a restart, the retry gets the stored response without a second charge",
+        JSON.stringify(replayedResponse) === JSON.stringify(firstResponse) && Ledger.getInstance().getBalance('Stored Buyer', "INR").equals(Money.of(925, "INR")));
+
+    const storedKeys = () => (JSON.parse(fs.readFileSync(idempotencyRecordsPath, "utf8")) as { key: string }[]).map(record => record.key);
+    paymentReqController.setIdempotencyKeyTTL(0);
+    await paytmService.processPayment(paymentReqController.create(new PaymentUser('Stored Buyer'), new PaymentUser('Jane Smith'), Money.of(5, "INR"), GATEWAY_TYPE.PAYTM), "stored-key-2");
+    paymentReqController.setIdempotencyKeyTTL(24 * 60 * 60);
+    await paytmService.processPayment(paymentReqController.create(new PaymentUser('Stored Buyer'), new PaymentUser('Jane Smith'), Money.of(5, "INR"), GATEWAY_TYPE.PAYTM), "stored-key-3");
+    console.log(storedKeys());
+    check("an expired idempotency key is evicted from the store", storedKeys().join(",") === "stored-key-1,stored-key-3");
+
+    const corruptPath = path.join(dataDir, "corrupt.json");
+    fs.writeFileSync(corruptPath, JSON.stringify([{ ...paymentReq.toRecord(), status: "LOST" }]));
+    const error = await rejectionOf(async () => new FileRepository(corruptPath, PAYMENT_REQ_MAPPER));
+    console.log(error?.message);
+    check("a record with an unknown status is rejected with its path", !!error && error.message.indexOf("payment.status") >= 0);
+    paymentReqController.useRepositories(new InMemoryRepository(PAYMENT_REQ_MAPPER.getId), new InMemoryRepository(REFUND_REQ_MAPPER.getId),
+        new InMemoryRepository(IDEMPOTENCY_RECORD_MAPPER.getId));
+    schedulerController.useRepository(new InMemoryRepository(SCHEDULER_JOB_MAPPER.getId));
+}
+
+async function demoWebhooks() {
+    console.log("\n================ Gateway webhooks: ================");
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.PAYTM, { confirmation: "webhook" });
+    Ledger.getInstance().deposit('Webhook Buyer', Money.of(1000, "INR"));
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Webhook Buyer'), new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM);
+    const pendingResponse = await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq);
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.PAYTM, { confirmation: "sync" });
+    check("the gateway answers 202 and the payment stays PROCESSING",
+        pendingResponse.statusCode === PENDING_CONFIRMATION_STATUS_CODE && paymentReq.getStatus() === PAYMENT_STATUS.PROCESSING);
+
+    // what Paytm would post to our callback endpoint a bit later
+    const webhooks = WebhookController.getInstance();
+    const { id, gatewayReference } = paymentReq.getDetails;
+    const callbackOf = (TXNDATE: string) => {
+        const rawBody = JSON.stringify({ ORDERID: id, TXNID: gatewayReference, STATUS: "TXN_SUCCESS", TXNDATE });
+        return { rawBody, headers: { "x-paytm-signature": webhooks.getHandler(GATEWAY_TYPE.PAYTM).sign(rawBody) } };
+    };
+    let callback = callbackOf(new Date().toISOString());
+    check("a callback with a wrong signature is rejected with 401",
+        webhooks.handle(GATEWAY_TYPE.PAYTM, callback.rawBody, { "x-paytm-signature": "forged" }).statusCode === 401);
+    callback = callbackOf("yesterday-ish");
+    check("a callback with an unparseable date is rejected with 400", webhooks.handle(GATEWAY_TYPE.PAYTM, callback.rawBody, callback.headers).statusCode === 400);
+    callback = callbackOf(new Date(Date.now() + 5 * 60 * 1000).toISOString());
+    check("a callback dated in the future is rejected with 409", webhooks.handle(GATEWAY_TYPE.PAYTM, callback.rawBody, callback.headers).statusCode === 409);
+    check("none of them touched the payment", paymentReq.getStatus() === PAYMENT_STATUS.PROCESSING);
+    callback = callbackOf(new Date().toISOString());
+    console.log(webhooks.handle(GATEWAY_TYPE.PAYTM, callback.rawBody, callback.headers));
+    check("the signed callback confirms the payment", paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    const duplicateResponse = webhooks.handle(GATEWAY_TYPE.PAYTM, callback.rawBody, callback.headers);
+    console.log(duplicateResponse);
+    check("a redelivered callback is acknowledged as a duplicate", (duplicateResponse.data as { duplicate?: boolean }).duplicate === true);
+}
+
+async function demoRiskEngine() {
+    console.log("\n================ Risk review and denial: ================");
+    const paymentReqController = PaymentReqController.getInstance();
+    const bigSpender = new PaymentUser('Big Spender');
+    Ledger.getInstance().deposit('Big Spender', Money.of(200000, "INR"));
+    let paymentReq = paymentReqController.create(bigSpender, new PaymentUser('Jane Smith'), Money.of(150000, "INR"), GATEWAY_TYPE.GPAY);
+    const gpayService = new PaymentService(GATEWAY_TYPE.GPAY);
+    let error = await rejectionOf(() => gpayService.processPayment(paymentReq));
+    console.log(error?.message, paymentReq.getDetails.riskAssessment);
+    check("a payment over the per payment cap is held for review",
+        error instanceof PaymentRiskError && paymentReq.getStatus() === PAYMENT_STATUS.IN_REVIEW);
+    check("it is listed for the reviewers", RiskEngine.getInstance().listPendingReviews().indexOf(paymentReq) >= 0);
+    check("it can't be processed before a reviewer decided", !!(await rejectionOf(() => gpayService.processPayment(paymentReq))));
+    RiskEngine.getInstance().approve(paymentReq.getDetails.id, "risk-team", "verified with the customer");
+    await gpayService.processPayment(paymentReq);
+    check("once approved it goes through", paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    paymentReq = paymentReqController.create(bigSpender, bigSpender, Money.of(10, "INR"), GATEWAY_TYPE.GPAY);
+    error = await rejectionOf(() => gpayService.processPayment(paymentReq));
+    check("paying yourself is denied", error instanceof PaymentRiskError && paymentReq.getStatus() === PAYMENT_STATUS.FAILED);
+
+    // the velocity window is measured on the risk engine's clock, a day ago here
+    const clock = new ManualClock(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    RiskEngine.getInstance().configure({}, clock);
+    paymentReqController.useClock(clock);
+    const quickBuyer = new PaymentUser('Quick Buyer');
+    Ledger.getInstance().deposit('Quick Buyer', Money.of(1000, "INR"));
+    for (let i = 0; i < 10; i++) {
+        await gpayService.processPayment(paymentReqController.create(quickBuyer, new PaymentUser('Jane Smith'), Money.of(1, "INR"), GATEWAY_TYPE.GPAY));
+    }
+    paymentReq = paymentReqController.create(quickBuyer, new PaymentUser('Jane Smith'), Money.of(1, "INR"), GATEWAY_TYPE.GPAY);
+    error = await rejectionOf(() => gpayService.processPayment(paymentReq));
+    check("the 11th payment within a minute is held by the velocity rule", error instanceof PaymentRiskError && paymentReq.getStatus() === PAYMENT_STATUS.IN_REVIEW);
+    clock.advance(61 * 1000);
+    paymentReq = paymentReqController.create(quickBuyer, new PaymentUser('Jane Smith'), Money.of(1, "INR"), GATEWAY_TYPE.GPAY);
+    await gpayService.processPayment(paymentReq);
+    check("a minute later on the same clock the window is clear again", paymentReq.getStatus() === PAYMENT_STATUS.CONFIRMED);
+    RiskEngine.getInstance().configure({}, new SystemClock());
+    paymentReqController.useClock(new SystemClock());
+}
+
+async function demoReconciliation() {
+    console.log("\n================ Settlement file reconciliation: ================");
+    Ledger.getInstance().deposit('Reconciled Buyer', Money.of(1000, "INR"));
+    const from = new Date();
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Reconciled Buyer'), new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM);
+    const otherPaymentReq = PaymentReqController.getInstance().create(new PaymentUser('Reconciled Buyer'), new PaymentUser('Jane Smith'), Money.of(40, "INR"), GATEWAY_TYPE.PAYTM);
+    await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq);
+    await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(otherPaymentReq);
+    // the file Paytm sends finance the next morning: settled 99.50 instead of 100 and then that order a second time,
+    // the other order under a transaction id we never got and one order we never saw
+    const { id, gatewayReference } = paymentReq.getDetails;
+    const settlementFile = [
+        "ORDERID,TXNID,TXNAMOUNT,CURRENCY,SETTLEDDATE",
+        `${id},${gatewayReference},99.50,INR,${new Date().toISOString()}`,
+        `${id},${gatewayReference},99.50,INR,${new Date().toISOString()}`,
+        `${otherPaymentReq.getDetails.id},paytm_other,40.00,INR,${new Date().toISOString()}`,
+        `unknown-order,paytm_unknown,250.00,INR,${new Date().toISOString()}`,
+    ].join("\n");
+    const report = ReconciliationService.getInstance().reconcile(GATEWAY_TYPE.PAYTM, settlementFile, from, new Date());
+    console.log(report.summary, report.rows, report.dailyTotals);
+    check("the short settlement is an amount mismatch", report.summary[RECONCILIATION_STATUS.AMOUNT_MISMATCH] === 1);
+    check("the unknown order is missing on our side", report.summary[RECONCILIATION_STATUS.MISSING_ON_OUR_SIDE] === 1);
+    check("the order settled a second time is a duplicate settlement", report.summary[RECONCILIATION_STATUS.DUPLICATE_SETTLEMENT] === 1);
+    check("the order settled under another transaction id is a reference mismatch", report.summary[RECONCILIATION_STATUS.REFERENCE_MISMATCH] === 1);
+    check("nothing else is in the window and every line is a discrepancy", report.rows.length === 4 && report.discrepancies === 4);
+    const emptyReport = ReconciliationService.getInstance().reconcile(GATEWAY_TYPE.PAYTM, settlementFile.split("\n")[0], from, new Date());
+    check("the payments the gateway didn't settle are missing on the gateway", emptyReport.summary[RECONCILIATION_STATUS.MISSING_ON_GATEWAY] === 2);
+}
+
+async function demoHttpApi() {
+    console.log("\n================ HTTP API: ================");
+    const api = PaymentApiServer.getInstance();
+    Ledger.getInstance().deposit('Api Buyer', Money.of(1000, "INR"));
+    const created = await api.handle("POST", "/payments", JSON.stringify({ sender: "Api Buyer", receiver: "Jane Smith", amount: 100, currency: "INR", gatewayType: "Paytm" }));
+    check("POST /payments creates a payment", created.statusCode === 201);
+    const paymentReqId = (created.data as { id: string }).id;
+    const processed = await api.handle("POST", `/payments/${paymentReqId}/process`, "", { "idempotency-key": "gift-1" });
+    const retried = await api.handle("POST", `/payments/${paymentReqId}/process`, "", { "idempotency-key": "gift-1" });
+    console.log(processed, retried);
+    check("a retry with the same Idempotency-Key gets the same answer",
+        processed.statusCode === 200 && retried.statusCode === 200 && JSON.stringify(processed.data) === JSON.stringify(retried.data));
+    const listed = await api.handle("GET", "/payments?userId=Api%20Buyer&status=CONFIRMED", "");
+    check("GET /payments filters by user and status", Array.isArray(listed.data) && listed.data.length === 1);
+    const invalid = await api.handle("POST", "/payments", JSON.stringify({ sender: "Api Buyer", receiver: "Jane Smith", amount: 0.001, currency: "INR", gatewayType: "Paytm" }));
+    console.log(invalid);
+    check("an amount under one minor unit is a 400", invalid.statusCode === 400);
+    check("a body that isn't JSON is a 400", (await api.handle("POST", "/payments", "{")).statusCode === 400);
+    check("a malformed percent-escape in the path is a 400", (await api.handle("GET", "/payments/%E0%A4%A", "")).statusCode === 400);
+    check("an unknown route is a 404", (await api.handle("GET", "/refunds", "")).statusCode === 404);
+    check("a known route with another method is a 405", (await api.handle("PUT", "/payments", "")).statusCode === 405);
+    const job = await api.handle("POST", "/scheduler-jobs", JSON.stringify({
+        fromUserId: "Api Buyer",
+        toUserId: "Jane Smith",
+        startDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+        gatewayType: "Paytm",
+        frequency: { type: "DAILY" },
+        amount: 10,
+        currency: "INR",
+    }));
+    const jobId = (job.data as { id: string }).id;
+    const paused = await api.handle("PATCH", `/scheduler-jobs/${jobId}`, JSON.stringify({ status: "PAUSED" }));
+    const cancelled = await api.handle("DELETE", `/scheduler-jobs/${jobId}`, "");
+    check("scheduler jobs are created, paused and cancelled over the API",
+        job.statusCode === 201 && (paused.data as { status: string }).status === SCHEDULER_JOB_STATUS.PAUSED
+        && (cancelled.data as { status: string }).status === SCHEDULER_JOB_STATUS.CANCELLED);
+}
+
+async function demoEventsAndAuditLog() {
+    console.log("\n================ Events and the audit log: ================");
+    const events: PaymentEvent[] = [];
+    const unsubscribe = EventBus.getInstance().subscribe("*", event => events.push(event));
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.PAYTM, { confirmation: "webhook" });
+    Ledger.getInstance().deposit('Audited Buyer', Money.of(1000, "INR"));
+    const paymentReq = PaymentReqController.getInstance().create(new PaymentUser('Audited Buyer'), new PaymentUser('Jane Smith'), Money.of(100, "INR"), GATEWAY_TYPE.PAYTM);
+    await new PaymentService(GATEWAY_TYPE.PAYTM).processPayment(paymentReq);
+    PaymentGatewayRegistry.getInstance().configure(GATEWAY_TYPE.PAYTM, { confirmation: "sync" });
+    const auditLog = EventBus.getInstance().getAuditLog();
+    check("a replay of the audit log sees a payment waiting for its callback as PROCESSING",
+        AuditLogReplayer.rebuild(auditLog.readAll()).get(paymentReq.getDetails.id)?.status === PAYMENT_STATUS.PROCESSING);
+
+    const webhooks = WebhookController.getInstance();
+    const rawBody = JSON.stringify({ ORDERID: paymentReq.getDetails.id, TXNID: paymentReq.getDetails.gatewayReference, STATUS: "TXN_SUCCESS", TXNDATE: new Date().toISOString() });
+    webhooks.handle(GATEWAY_TYPE.PAYTM, rawBody, { "x-paytm-signature": webhooks.getHandler(GATEWAY_TYPE.PAYTM).sign(rawBody) });
+    unsubscribe();
+    const paymentEvents = events
+        .filter(event => "paymentReqId" in event && event.paymentReqId === paymentReq.getDetails.id)
+        .map(event => event.type);
+    console.log(paymentEvents);
+    check("every step was published in order", paymentEvents.join(",") === [
+        PAYMENT_EVENT_TYPE.PAYMENT_CREATED,
+        PAYMENT_EVENT_TYPE.VALIDATION_PASSED,
+        PAYMENT_EVENT_TYPE.PROCESSING_STARTED,
+        PAYMENT_EVENT_TYPE.PAYMENT_CONFIRMED,
+    ].join(","));
+    // rebuilt from the log alone, e.g. after losing the payments store
+    const projection = AuditLogReplayer.rebuild(auditLog.readAll()).get(paymentReq.getDetails.id);
+    console.log(projection);
+    check("the replay ends up CONFIRMED too", projection?.status === PAYMENT_STATUS.CONFIRMED && projection.gatewayReference === paymentReq.getDetails.gatewayReference);
+
+    const auditPath = path.join(__dirname, "data", "demo", "audit.log");
+    fs.rmSync(auditPath, { force: true });
+    const fileAuditLog = new FileAuditLog(auditPath);
+    auditLog.readAll()
+        .filter(event => "paymentReqId" in event && event.paymentReqId === paymentReq.getDetails.id)
+        .forEach(event => fileAuditLog.append(event));
+    // a failure without its reason and a line cut off by a crash
+    fs.appendFileSync(auditPath, `${JSON.stringify({ id: "evt_1", occurredAt: new Date().toISOString(), type: PAYMENT_EVENT_TYPE.PAYMENT_FAILED, paymentReqId: paymentReq.getDetails.id })}\n`);
+    fs.appendFileSync(auditPath, `{"id":"evt_2","type":"PaymentConf`);
+    const storedEvents = fileAuditLog.readAll();
+    check("bad lines of the audit log file are skipped", storedEvents.length === paymentEvents.length && storedEvents.every(event => event.occurredAt instanceof Date));
+    check("the replay of the file is CONFIRMED", AuditLogReplayer.rebuild(storedEvents).get(paymentReq.getDetails.id)?.status === PAYMENT_STATUS.CONFIRMED);
+}
+
+async function demoSplitPayments() {
+    console.log("\n================ Split payment: ================");
+    const splitService = SplitPaymentService.getInstance();
+    const buyer = new PaymentUser('Marketplace Buyer');
+    Ledger.getInstance().deposit('Marketplace Buyer', Money.of(1000, "INR"));
+    // marketplace order: 90% to the seller, 10% fee to the platform, the odd paisa goes to the seller
+    const split = splitService.create(buyer, Money.of(99.99, "INR"), GATEWAY_TYPE.PAYTM, SPLIT_TYPE.PERCENTAGE, [
+        { receiver: new PaymentUser('Seller'), percentage: 90 },
+        { receiver: new PaymentUser('Platform'), percentage: 10, gatewayType: GATEWAY_TYPE.GPAY },
+    ], SPLIT_REMAINDER_POLICY.FIRST_LEG);
+    await splitService.process(split);
+    const [sellerLeg, platformLeg] = split.getDetails.legs;
+    check("the legs are 90.00 and 9.99 INR",
+        sellerLeg.getDetails.amount.equals(Money.of(90, "INR")) && platformLeg.getDetails.amount.equals(Money.of(9.99, "INR")));
+    check("the split completed", split.getStatus() === SPLIT_STATUS.COMPLETED);
+    await splitService.refundLeg(split, sellerLeg.getDetails.id, Money.of(20, "INR"), "Item missing");
+    console.log(split.getDetails.legs.map(leg => leg.getDetails), split.getRefundedAmount());
+    check("a leg is refunded on its own", split.getRefundedAmount().equals(Money.of(20, "INR")) && platformLeg.getStatus() === PAYMENT_STATUS.CONFIRMED);
+
+    // the second leg pays the buyer back to themselves and is denied, FlakyPay then refuses to undo the first
+    const failingSplit = splitService.create(buyer, Money.of(50, "INR"), "FlakyPay", SPLIT_TYPE.PERCENTAGE, [
+        { receiver: new PaymentUser('Seller'), percentage: 50 },
+        { receiver: buyer, percentage: 50 },
+    ]);
+    const error = await rejectionOf(() => splitService.process(failingSplit));
+    const [stuckLeg, deniedLeg] = failingSplit.getDetails.legs;
+    console.log(error?.message, failingSplit.getDetails.outstandingLegIds);
+    check("the split failed", failingSplit.getStatus() === SPLIT_STATUS.FAILED);
+    check("the leg FlakyPay wouldn't refund is left outstanding",
+        failingSplit.getDetails.outstandingLegIds.join(",") === stuckLeg.getDetails.id && deniedLeg.getStatus() === PAYMENT_STATUS.FAILED);
+}
+
+(async () => {
+    await demoPaymentLifecycle();
+    await demoRefunds();
+    await demoIdempotencyKeys();
+    await demoRetries();
+    await demoCircuitBreaker();
+    await demoGatewayRegistry();
+    await demoLedger();
+    await demoFx();
+    await demoRecurringBilling();
+    await demoDunning();
+    await demoPersistentStorage();
+    await demoWebhooks();
+    await demoRiskEngine();
+    await demoReconciliation();
+    await demoHttpApi();
+    await demoEventsAndAuditLog();
+    await demoSplitPayments();
+
+    console.log(`\n${checkCount} checks, ${failedChecks.length} failed`);
+    failedChecks.forEach(description => console.log(`  ${description}`));
+    process.exitCode = failedChecks.length ? 1 : 0;
+})().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});